@@ -0,0 +1,9 @@
+-- Reverts the ticket system schema created by 0001_init.up.sql
+
+DROP FUNCTION IF EXISTS get_next_ticket_number(VARCHAR);
+
+DROP TABLE IF EXISTS ticket_counters;
+DROP TABLE IF EXISTS ticket_panels;
+DROP TABLE IF EXISTS ticket_messages;
+DROP TABLE IF EXISTS ticket_participants;
+DROP TABLE IF EXISTS tickets;
@@ -20,6 +20,10 @@ CREATE TABLE IF NOT EXISTS tickets (
     -- State tracking
     status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
     
+    -- Staff assignment
+    claimed_by VARCHAR(19),                   -- Staff member who claimed the ticket
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    
     -- Timestamps
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
     closed_at TIMESTAMP WITH TIME ZONE,
@@ -33,7 +37,7 @@ CREATE TABLE IF NOT EXISTS tickets (
     close_reason TEXT,                        -- Optional reason for closing
     closed_by VARCHAR(19),                    -- User ID who closed the ticket
     
-    -- Indexes for common queries
+    -- Ticket numbers are unique per category
     CONSTRAINT unique_category_number UNIQUE (category_key, ticket_number)
 );
 
@@ -127,20 +131,40 @@ CREATE TABLE IF NOT EXISTS ticket_panels (
 -- Index for performance
 CREATE INDEX IF NOT EXISTS idx_panels_message ON ticket_panels(message_id);
 
+-- ============================================================================
+-- TICKET_COUNTERS TABLE
+-- ============================================================================
+-- Last allocated ticket number per category, used by get_next_ticket_number
+CREATE TABLE IF NOT EXISTS ticket_counters (
+    category_key VARCHAR(50) PRIMARY KEY,     -- References config category
+    last_number INTEGER NOT NULL DEFAULT 0,   -- Last allocated ticket number
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- ============================================================================
 -- HELPER FUNCTIONS
 -- ============================================================================
 
--- Function to get next ticket number for a category
+-- Function to allocate the next ticket number for a category
+-- The counter row is locked by the upsert, so concurrent callers are serialized
+-- and never receive the same number. Numbers consumed by rolled back
+-- transactions are not reused, which can leave gaps in the sequence.
 CREATE OR REPLACE FUNCTION get_next_ticket_number(p_category_key VARCHAR)
 RETURNS INTEGER AS $$
 DECLARE
     v_next_number INTEGER;
 BEGIN
-    SELECT COALESCE(MAX(ticket_number), 0) + 1
-    INTO v_next_number
-    FROM tickets
-    WHERE category_key = p_category_key;
+    INSERT INTO ticket_counters (category_key, last_number)
+    VALUES (
+        p_category_key,
+        (SELECT COALESCE(MAX(ticket_number), 0) + 1
+         FROM tickets
+         WHERE category_key = p_category_key)
+    )
+    ON CONFLICT (category_key)
+    DO UPDATE SET last_number = ticket_counters.last_number + 1,
+                  updated_at = NOW()
+    RETURNING last_number INTO v_next_number;
     
     RETURN v_next_number;
 END;
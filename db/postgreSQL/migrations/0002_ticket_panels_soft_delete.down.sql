@@ -0,0 +1,4 @@
+-- Reverts 0002_ticket_panels_soft_delete.up.sql
+
+ALTER TABLE ticket_panels
+    DROP COLUMN IF EXISTS deleted_at;
@@ -0,0 +1,6 @@
+-- ============================================================================
+-- TICKET_PANELS SOFT DELETE
+-- ============================================================================
+-- Removed panels are kept with deleted_at set instead of being deleted
+ALTER TABLE ticket_panels
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;  -- NULL while the panel is active
@@ -0,0 +1,3 @@
+-- Reverts 0003_audit_log.up.sql
+
+DROP TABLE IF EXISTS audit_log;
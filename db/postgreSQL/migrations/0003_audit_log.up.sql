@@ -0,0 +1,28 @@
+-- ============================================================================
+-- AUDIT_LOG TABLE
+-- ============================================================================
+-- Row-level change history of audited tables, written in the same
+-- transaction as the change itself
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+
+    -- Changed entity
+    table_name VARCHAR(63) NOT NULL,          -- Table the entity lives in
+    entity_id TEXT NOT NULL,                  -- Primary key value of the entity
+
+    -- Change
+    action VARCHAR(10) NOT NULL,              -- update, delete, restore
+    actor_id VARCHAR(19),                     -- Discord user ID that made the change (NULL for system changes)
+    before JSONB,                             -- Changed columns before the change (full row for deletes)
+    after JSONB,                              -- Changed columns after the change (NULL for hard deletes)
+
+    -- Timestamps
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_audit_action CHECK (action IN ('update', 'delete', 'restore'))
+);
+
+-- Index for performance (history of a single entity, newest first)
+CREATE INDEX IF NOT EXISTS idx_audit_entity ON audit_log(table_name, entity_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_actor ON audit_log(actor_id);
@@ -0,0 +1,3 @@
+-- Reverts 0004_cooldowns.up.sql
+
+DROP TABLE IF EXISTS cooldowns;
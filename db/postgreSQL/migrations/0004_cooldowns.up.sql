@@ -0,0 +1,24 @@
+-- ============================================================================
+-- COOLDOWNS TABLE
+-- ============================================================================
+-- Active command cooldowns, persisted so long cooldowns survive restarts
+CREATE TABLE IF NOT EXISTS cooldowns (
+    key TEXT PRIMARY KEY,                     -- Cooldown key, e.g. "daily:user:123"
+
+    -- Cooldown scope
+    command_name VARCHAR(32) NOT NULL,        -- Command the cooldown applies to
+    cooldown_type VARCHAR(10) NOT NULL,       -- user, global, channel, guild
+    user_id VARCHAR(19) NOT NULL,             -- Discord user ID that triggered the cooldown
+
+    -- Timestamps
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    -- Constraints
+    CONSTRAINT valid_cooldown_type CHECK (cooldown_type IN ('user', 'global', 'channel', 'guild'))
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_cooldowns_expires_at ON cooldowns(expires_at);
+CREATE INDEX IF NOT EXISTS idx_cooldowns_command ON cooldowns(command_name);
+CREATE INDEX IF NOT EXISTS idx_cooldowns_user ON cooldowns(user_id);
@@ -0,0 +1,4 @@
+-- Reverts 0005_cooldown_uses.up.sql
+
+ALTER TABLE cooldowns
+    DROP COLUMN IF EXISTS uses;
@@ -0,0 +1,6 @@
+-- ============================================================================
+-- COOLDOWN USES
+-- ============================================================================
+-- Timestamps of the uses still counting towards a sliding-window limit
+ALTER TABLE cooldowns
+    ADD COLUMN IF NOT EXISTS uses TIMESTAMP WITH TIME ZONE[] NOT NULL DEFAULT '{}';  -- Oldest first, empty for other limits
@@ -0,0 +1,4 @@
+-- Reverts 0006_ticket_claims.up.sql
+
+-- Nothing to drop: the claim columns are also part of the 0001_init schema
+SELECT 1;
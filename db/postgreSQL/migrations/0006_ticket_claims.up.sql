@@ -0,0 +1,8 @@
+-- ============================================================================
+-- TICKET CLAIMS
+-- ============================================================================
+-- Databases created from the original init.sql have a tickets table without
+-- the claim columns, which 0001_init does not add to an existing table
+ALTER TABLE tickets
+    ADD COLUMN IF NOT EXISTS claimed_by VARCHAR(19),                 -- Staff member who claimed the ticket
+    ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
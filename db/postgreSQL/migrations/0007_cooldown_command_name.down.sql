@@ -0,0 +1,8 @@
+-- Reverts 0007_cooldown_command_name.up.sql
+
+-- Cooldowns whose name does not fit anymore are dropped, they only limit
+-- how often a command can be used
+DELETE FROM cooldowns WHERE LENGTH(command_name) > 32;
+
+ALTER TABLE cooldowns
+    ALTER COLUMN command_name TYPE VARCHAR(32);
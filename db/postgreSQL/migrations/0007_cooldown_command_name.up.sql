@@ -0,0 +1,7 @@
+-- ============================================================================
+-- COOLDOWN COMMAND NAMES
+-- ============================================================================
+-- Context menu cooldowns are kept under "ctx:" + name, which is longer than
+-- the 32 characters Discord allows for command names
+ALTER TABLE cooldowns
+    ALTER COLUMN command_name TYPE VARCHAR(64);
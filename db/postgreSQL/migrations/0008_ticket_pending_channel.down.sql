@@ -0,0 +1,7 @@
+-- Reverts 0008_ticket_pending_channel.up.sql
+
+-- Tickets whose channel was never created have nothing to restore
+DELETE FROM tickets WHERE channel_id IS NULL;
+
+ALTER TABLE tickets
+    ALTER COLUMN channel_id SET NOT NULL;
@@ -0,0 +1,7 @@
+-- ============================================================================
+-- PENDING TICKET CHANNELS
+-- ============================================================================
+-- Tickets are stored before their channel is created, so the Discord API is
+-- not called while the creator's tickets are locked
+ALTER TABLE tickets
+    ALTER COLUMN channel_id DROP NOT NULL;   -- NULL until the channel is created
@@ -18,6 +18,8 @@ dotenv.config({ quiet: true });
  * @property {string} DISCORD_GUILD_ID - Discord server/guild ID (must be numeric snowflake)
  * @property {string} DISCORD_BOT_TOKEN - Discord bot authentication token
  * @property {string} DISCORD_BOT_ID - Discord bot application/client ID (must be numeric snowflake)
+ * @property {string} [DISCORD_TICKET_CATEGORY_ID] - Optional category channel ID new ticket channels are created under
+ * @property {string} [DISCORD_TICKET_LOG_CHANNEL_ID] - Optional channel ID ticket transcripts are posted to
  */
 const envSchema = z.object({
   // Server
@@ -58,6 +60,20 @@ const envSchema = z.object({
       /^\d{17,19}$/,
       "Bot ID must be a valid Discord snowflake (17-19 digits)"
     ),
+  DISCORD_TICKET_CATEGORY_ID: z
+    .string()
+    .regex(
+      /^\d{17,19}$/,
+      "Ticket category ID must be a valid Discord snowflake (17-19 digits)"
+    )
+    .optional(),
+  DISCORD_TICKET_LOG_CHANNEL_ID: z
+    .string()
+    .regex(
+      /^\d{17,19}$/,
+      "Ticket log channel ID must be a valid Discord snowflake (17-19 digits)"
+    )
+    .optional(),
 });
 
 /**
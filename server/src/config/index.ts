@@ -1,6 +1,10 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import type { Config } from "./types";
 import { env, envMode } from "./env/env.config";
 
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
 const config: Config = {
   envMode,
 
@@ -25,6 +29,11 @@ const config: Config = {
       idleTimeoutMillis: 30_000,
       connectionTimeoutMillis: 10_000,
     },
+    migrations: {
+      // <repo>/db/postgreSQL/migrations from src/config or dist/config
+      dir: path.resolve(__dirname, "../../../db/postgreSQL/migrations"),
+      table: "schema_migrations",
+    },
   },
 
   discord: {
@@ -37,6 +46,40 @@ const config: Config = {
     guild: {
       id: env.DISCORD_GUILD_ID,
     },
+    tickets: {
+      parentCategoryId: env.DISCORD_TICKET_CATEGORY_ID,
+      staffRoleIds: [],
+      maxOpenPerUser: 1,
+      closeDelaySeconds: 5,
+      archive: {
+        enabled: true,
+        format: "html",
+        dir: "transcripts",
+        logChannelId: env.DISCORD_TICKET_LOG_CHANNEL_ID,
+      },
+      categories: [
+        {
+          key: "support",
+          label: "General Support",
+          description: "Questions and general help",
+          emoji: "🎫",
+        },
+        {
+          key: "technical",
+          label: "Technical Issue",
+          description: "Bugs and technical problems",
+          emoji: "🛠️",
+        },
+      ],
+    },
+    cooldowns: {
+      store: "memory",
+      sweepIntervalSeconds: 300,
+    },
+    autocomplete: {
+      throttleMs: 250,
+      timeoutMs: 2500,
+    },
     embeds: {
       colors: {
         GREEN: 0x00ff00,
@@ -1,5 +1,6 @@
 import { ColorResolvable } from "discord.js";
 import { envModeConfig } from "./env/env.config";
+import type { TicketArchiveFormat } from "@/db/types/tickets.types";
 
 interface UtilsConfig {
   readonly logger: LoggerConfig;
@@ -7,11 +8,15 @@ interface UtilsConfig {
 
 interface DatabaseConfig {
   readonly pool: PoolConfig;
+  readonly migrations: MigrationsConfig;
 }
 
 interface DiscordConfig {
   readonly bots: BotConfig;
   readonly guild: GuildConfig;
+  readonly tickets: TicketConfig;
+  readonly cooldowns: CooldownConfig;
+  readonly autocomplete: AutocompleteConfig;
   readonly embeds: EmbedConfig;
 }
 
@@ -44,6 +49,19 @@ export interface LoggerConfig {
   keepDays: number;
 }
 
+export interface MigrationsConfig {
+  /**
+   * Directory containing numbered `<version>_<name>.up.sql` / `.down.sql` files
+   * Relative paths are resolved from the process working directory, the
+   * default is resolved from the location of the config module
+   */
+  readonly dir: string;
+  /**
+   * Table applied migration versions and checksums are recorded in
+   */
+  readonly table: string;
+}
+
 export interface PoolConfig {
   /** The PostgreSQL username */
   readonly user: string;
@@ -195,6 +213,102 @@ export interface GuildConfig {
   id: string;
 }
 
+export interface TicketConfig {
+  /**
+   * Category channel ID new ticket channels are created under
+   * Tickets are created at the top level of the guild when omitted
+   */
+  readonly parentCategoryId?: string;
+  /**
+   * Role IDs granted access to every ticket channel
+   * Members with one of these roles can close and claim tickets
+   */
+  readonly staffRoleIds: readonly string[];
+  /**
+   * Maximum number of open tickets a single user may have at once
+   */
+  readonly maxOpenPerUser: number;
+  /**
+   * Seconds to wait after closing a ticket before its channel is deleted
+   */
+  readonly closeDelaySeconds: number;
+  /**
+   * Transcript archiving performed when a ticket is closed
+   */
+  readonly archive: TicketArchiveConfig;
+  /**
+   * Ticket categories users can open tickets in
+   * Ticket numbers are sequential per category key
+   */
+  readonly categories: readonly TicketCategoryConfig[];
+}
+
+export interface TicketArchiveConfig {
+  /**
+   * Whether messages are captured and a transcript is written on close
+   */
+  readonly enabled: boolean;
+  /**
+   * Default transcript format, can be overridden per close
+   */
+  readonly format: TicketArchiveFormat;
+  /**
+   * Directory transcripts are written to
+   * Relative paths are resolved from the process working directory
+   */
+  readonly dir: string;
+  /**
+   * Channel ID transcripts are posted to as attachments
+   * Transcripts are only written to disk when omitted
+   */
+  readonly logChannelId?: string;
+}
+
+export interface TicketCategoryConfig {
+  /** Unique key stored as tickets.category_key (max 50 characters) */
+  readonly key: string;
+  /** Human readable name shown in command choices and embeds */
+  readonly label: string;
+  /** Short description shown in the ticket welcome embed */
+  readonly description: string;
+  /** Optional emoji prefixed to the label */
+  readonly emoji?: string;
+  /** Additional role IDs with access to tickets in this category */
+  readonly staffRoleIds?: readonly string[];
+  /** Overrides the default parent category channel for this category */
+  readonly parentCategoryId?: string;
+}
+
+export interface CooldownConfig {
+  /**
+   * Where command cooldowns are kept
+   * - "memory": in the process, lost on restart (default, needs no database)
+   * - "postgres": in the cooldowns table, active cooldowns are reloaded on startup
+   * - "shared": in the cooldowns table without a local cache, for several
+   *   shards or replicas sharing the same cooldowns. Commands are refused
+   *   while the database is unavailable
+   */
+  readonly store: "memory" | "postgres" | "shared";
+  /**
+   * Seconds between deletions of expired cooldown rows (postgres and shared
+   * stores only)
+   */
+  readonly sweepIntervalSeconds: number;
+}
+
+export interface AutocompleteConfig {
+  /**
+   * Minimum milliseconds between handled autocomplete requests of a user,
+   * only the last request in between is handled once the time has passed
+   */
+  readonly throttleMs: number;
+  /**
+   * Milliseconds after which a pending autocomplete handler is answered with
+   * no suggestions (Discord drops responses after 3 seconds)
+   */
+  readonly timeoutMs: number;
+}
+
 export interface ColorsConfig {
   GREEN: ColorResolvable;
   RED: ColorResolvable;
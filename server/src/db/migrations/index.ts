@@ -0,0 +1,15 @@
+import db from "@/db";
+import config from "@/config";
+import { Migrator } from "./migrator";
+
+export { Migrator, MigrationError, formatMigration } from "./migrator";
+export type { Migration, AppliedMigration, MigrationStatus } from "./migrator";
+
+/**
+ * Migrator instance bound to the application database pool
+ */
+export const migrator = new Migrator(
+  db,
+  config.database.migrations.dir,
+  config.database.migrations.table
+);
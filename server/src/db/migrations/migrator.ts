@@ -0,0 +1,394 @@
+import path from "node:path";
+import fs from "node:fs";
+import crypto from "node:crypto";
+import type { Pool } from "pg";
+import logger from "@/logger";
+
+/**
+ * Migration file pair discovered in the migrations directory
+ *
+ * Files are named `<version>_<name>.up.sql` and `<version>_<name>.down.sql`,
+ * e.g. `0002_add_ticket_tags.up.sql`
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  checksum: string;
+}
+
+/**
+ * Migration recorded in the migrations table
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+/**
+ * Migration state as reported by status()
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: "applied" | "pending" | "changed" | "missing";
+  appliedAt: Date | null;
+}
+
+/**
+ * Error thrown when migrations cannot be loaded or applied
+ */
+export class MigrationError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = "MigrationError";
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+
+/**
+ * Formats a migration as it appears in file names
+ *
+ * @example
+ * formatMigration({ version: 2, name: "add_ticket_tags" }) // "0002_add_ticket_tags"
+ */
+export function formatMigration(migration: {
+  version: number;
+  name: string;
+}): string {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
+
+/**
+ * Applies and reverts versioned SQL migrations
+ *
+ * Applied versions and checksums of their up files are recorded in a table so
+ * edited migrations are detected. Every migration runs in its own transaction
+ * together with the bookkeeping insert/delete. up() and down() hold an
+ * advisory lock on the table name, so processes migrating at the same time
+ * (e.g. several instances starting after a deploy) run one after another.
+ */
+export class Migrator {
+  constructor(
+    private db: Pool,
+    private dir: string,
+    private table: string = "schema_migrations"
+  ) {}
+
+  /**
+   * Computes the SHA-256 checksum of a migration file
+   */
+  private checksum(sql: string): string {
+    return crypto.createHash("sha256").update(sql).digest("hex");
+  }
+
+  /**
+   * Reads all migrations from the migrations directory, ordered by version
+   *
+   * @returns List of migrations
+   * @throws MigrationError if the directory does not exist, or a version is
+   * duplicated or has no up file
+   */
+  public loadMigrations(): Migration[] {
+    if (!fs.existsSync(this.dir)) {
+      throw new MigrationError(`Migrations directory not found: ${this.dir}`);
+    }
+
+    const byVersion = new Map<
+      number,
+      { name: string; upPath?: string; downPath?: string }
+    >();
+
+    for (const file of fs.readdirSync(this.dir)) {
+      const match = MIGRATION_FILE.exec(file);
+      if (!match) continue;
+
+      const [, versionStr, name, direction] = match;
+      const version = Number(versionStr);
+      const entry = byVersion.get(version) ?? { name };
+
+      if (entry.name !== name) {
+        throw new MigrationError(
+          `Migration version ${version} is used by both '${entry.name}' and '${name}'`
+        );
+      }
+
+      const filePath = path.join(this.dir, file);
+      if (direction === "up") entry.upPath = filePath;
+      else entry.downPath = filePath;
+
+      byVersion.set(version, entry);
+    }
+
+    return [...byVersion.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([version, entry]) => {
+        if (!entry.upPath) {
+          throw new MigrationError(
+            `Migration ${formatMigration({
+              version,
+              name: entry.name,
+            })} has no .up.sql file`
+          );
+        }
+
+        return {
+          version,
+          name: entry.name,
+          upPath: entry.upPath,
+          downPath: entry.downPath ?? null,
+          checksum: this.checksum(fs.readFileSync(entry.upPath, "utf-8")),
+        };
+      });
+  }
+
+  /**
+   * Creates the migrations table if it does not exist
+   */
+  private async ensureTable(): Promise<void> {
+    await this.db.query(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+      )`);
+  }
+
+  /**
+   * Gets all applied migrations, ordered by version
+   */
+  public async getApplied(): Promise<AppliedMigration[]> {
+    await this.ensureTable();
+
+    const result = await this.db.query<{
+      version: number;
+      name: string;
+      checksum: string;
+      applied_at: Date;
+    }>(
+      `SELECT version, name, checksum, applied_at FROM ${this.table} ORDER BY version`
+    );
+
+    return result.rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: row.applied_at,
+    }));
+  }
+
+  /**
+   * Gets the state of every known migration
+   *
+   * - applied: recorded and unchanged
+   * - pending: not applied yet
+   * - changed: applied, but the up file was edited afterwards
+   * - missing: applied, but the file no longer exists
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    const migrations = this.loadMigrations();
+    const applied = new Map(
+      (await this.getApplied()).map((m) => [m.version, m])
+    );
+
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const record = applied.get(migration.version);
+      applied.delete(migration.version);
+
+      if (!record) {
+        return {
+          version: migration.version,
+          name: migration.name,
+          state: "pending",
+          appliedAt: null,
+        };
+      }
+
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: record.checksum === migration.checksum ? "applied" : "changed",
+        appliedAt: record.appliedAt,
+      };
+    });
+
+    for (const record of applied.values()) {
+      statuses.push({
+        version: record.version,
+        name: record.name,
+        state: "missing",
+        appliedAt: record.appliedAt,
+      });
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Gets migrations that have not been applied yet
+   */
+  public async getPending(): Promise<Migration[]> {
+    const applied = new Set((await this.getApplied()).map((m) => m.version));
+    return this.loadMigrations().filter((m) => !applied.has(m.version));
+  }
+
+  /**
+   * Ensures no applied migration was edited after being applied
+   *
+   * @throws MigrationError if a checksum does not match
+   */
+  private async verifyChecksums(): Promise<void> {
+    const changed = (await this.status()).filter((s) => s.state === "changed");
+
+    if (changed.length > 0) {
+      const list = changed.map(formatMigration).join(", ");
+      throw new MigrationError(
+        `Applied migration(s) were modified after being applied: ${list}`
+      );
+    }
+  }
+
+  /**
+   * Runs a SQL file and a bookkeeping statement in a single transaction
+   */
+  private async runInTransaction(
+    sql: string,
+    bookkeeping: { query: string; params: any[] }
+  ): Promise<void> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query("BEGIN");
+      await client.query(sql);
+      await client.query(bookkeeping.query, bookkeeping.params);
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Runs a callback while holding the session advisory lock of the migrations table
+   *
+   * The lock is taken on a dedicated connection and waits for other
+   * processes holding it, pending migrations have to be read inside the
+   * callback.
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const client = await this.db.connect();
+    let unlocked = false;
+
+    try {
+      await client.query("SELECT pg_advisory_lock(hashtext($1))", [this.table]);
+
+      try {
+        return await fn();
+      } finally {
+        unlocked = await client
+          .query("SELECT pg_advisory_unlock(hashtext($1))", [this.table])
+          .then(() => true)
+          .catch((error) => {
+            logger.error("Failed to release the migration lock:", error);
+            return false;
+          });
+      }
+    } finally {
+      // A connection that may still hold the lock is closed instead of reused
+      client.release(!unlocked);
+    }
+  }
+
+  /**
+   * Applies pending migrations in version order
+   *
+   * @param targetVersion - Optional version to stop at (inclusive)
+   * @returns Promise resolving to the applied migrations
+   * @throws MigrationError if a migration fails or an applied migration was modified
+   */
+  public async up(targetVersion?: number): Promise<Migration[]> {
+    return this.withLock(async () => {
+      await this.verifyChecksums();
+
+      const pending = (await this.getPending()).filter(
+        (m) => targetVersion === undefined || m.version <= targetVersion
+      );
+
+      for (const migration of pending) {
+        const sql = fs.readFileSync(migration.upPath, "utf-8");
+
+        try {
+          await this.runInTransaction(sql, {
+            query: `INSERT INTO ${this.table} (version, name, checksum) VALUES ($1, $2, $3)`,
+            params: [migration.version, migration.name, migration.checksum],
+          });
+          logger.info(`Applied migration ${formatMigration(migration)}`);
+        } catch (error) {
+          throw new MigrationError(
+            `Failed to apply migration ${formatMigration(migration)}`,
+            error
+          );
+        }
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Reverts the most recently applied migrations
+   *
+   * @param steps - Number of migrations to revert (default 1)
+   * @returns Promise resolving to the reverted migrations
+   * @throws MigrationError if a migration has no down file or fails
+   */
+  public async down(steps: number = 1): Promise<Migration[]> {
+    return this.withLock(async () => {
+      const migrations = new Map(
+        this.loadMigrations().map((m) => [m.version, m])
+      );
+      const toRevert = (await this.getApplied()).reverse().slice(0, steps);
+      const reverted: Migration[] = [];
+
+      for (const record of toRevert) {
+        const migration = migrations.get(record.version);
+
+        if (!migration?.downPath) {
+          throw new MigrationError(
+            `Migration ${formatMigration(record)} has no .down.sql file`
+          );
+        }
+
+        const sql = fs.readFileSync(migration.downPath, "utf-8");
+
+        try {
+          await this.runInTransaction(sql, {
+            query: `DELETE FROM ${this.table} WHERE version = $1`,
+            params: [migration.version],
+          });
+          logger.info(`Reverted migration ${formatMigration(migration)}`);
+        } catch (error) {
+          throw new MigrationError(
+            `Failed to revert migration ${formatMigration(migration)}`,
+            error
+          );
+        }
+
+        reverted.push(migration);
+      }
+
+      return reverted;
+    });
+  }
+}
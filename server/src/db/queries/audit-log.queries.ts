@@ -0,0 +1,43 @@
+import db from "@/db";
+import { BaseQueries } from "./base.queries";
+import { AUDIT_LOG_COLUMN_MAP } from "../types/generated";
+import { AUDIT_LOG_TABLE } from "../utils/audit";
+import type { Page } from "../utils/pagination";
+import type {
+  AuditLogEntry,
+  AuditLogQueryConfig,
+} from "../types/audit-log.types";
+
+/**
+ * Query class for the audit_log table
+ * Entries are written by audited query classes, this class only reads them
+ */
+export class AuditLogQueries extends BaseQueries<AuditLogQueryConfig> {
+  protected readonly table = AUDIT_LOG_TABLE;
+  protected readonly COLUMN_MAP = AUDIT_LOG_COLUMN_MAP;
+
+  /**
+   * Gets the change history of an entity, newest first
+   *
+   * @param tableName - Table of the entity (e.g. "tickets")
+   * @param entityId - Primary key value of the entity
+   * @param options - Page size and cursor of the page
+   * @returns Promise resolving to one page of audit entries
+   *
+   * @example
+   * const { items } = await auditLogQueries.getHistory("tickets", ticket.ticketId);
+   */
+  async getHistory(
+    tableName: string,
+    entityId: string | number,
+    options: { limit?: number; cursor?: string | null } = {}
+  ): Promise<Page<AuditLogEntry>> {
+    return this.paginate({
+      filters: { tableName, entityId: String(entityId) },
+      orderDirection: "DESC",
+      ...options,
+    });
+  }
+}
+
+export const auditLogQueries = new AuditLogQueries(db);
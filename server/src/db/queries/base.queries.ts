@@ -1,10 +1,50 @@
-import type { Pool, QueryResultRow } from "pg";
+import pg, { type Pool, type PoolClient, type QueryResultRow } from "pg";
 import logger from "@/logger";
-import { createNotFoundError } from "../utils/query-helpers";
+import { createNotFoundError, quoteIdentifier } from "../utils/query-helpers";
+import {
+  InvalidColumnError,
+  InvalidQueryError,
+  translateDatabaseError,
+} from "../utils/errors";
+import { transaction } from "../utils/transaction";
+import { AUDIT_LOG_TABLE, diffRows, recordAuditEntry } from "../utils/audit";
+import type { AuditAction } from "../types/audit-log.types";
+import {
+  decodeCursor,
+  encodeCursor,
+  type Page,
+  type PaginateOptions,
+} from "../utils/pagination";
+import {
+  FilterBuilder,
+  isFilterOperators,
+  type FilterOperators,
+  type QueryFilter,
+  type WhereFilter,
+} from "../utils/filters";
+import type {
+  RelationDefinition,
+  RelationName,
+  WithRelations,
+} from "../utils/relations";
+
+/**
+ * Maximum number of bind parameters PostgreSQL accepts in a single statement
+ */
+const MAX_QUERY_PARAMS = 65535;
+
+/**
+ * Alias of the order column rendered as text by paginate(), see encodeCursor()
+ */
+const CURSOR_ORDER_VALUE = "__cursor_order_value";
 
 /**
  * Base class for database query operations
  * Provides common CRUD functionality that can be extended by specific entity data
+ * Failed queries are rethrown as DatabaseError subclasses (see translateDatabaseError)
+ *
+ * Only entity keys listed in COLUMN_MAP can reach the SQL text, any other key
+ * is rejected with an InvalidColumnError. Table and column names are quoted.
  */
 export abstract class BaseQueries<
   TConfig extends {
@@ -14,12 +54,301 @@ export abstract class BaseQueries<
     Filters?: Record<string, any>;
     Update?: Record<string, any>;
     Create?: Record<string, any>;
+    Relations?: Record<string, any>;
   }
 > {
   protected abstract readonly table: string;
-  protected readonly COLUMN_MAP?: Record<string, string>;
+  /** Entity keys mapped to column names, the only keys accepted in queries */
+  protected abstract readonly COLUMN_MAP: Readonly<Record<string, string>>;
+  /** Entity key of the primary key column, used as pagination tie-breaker */
+  protected readonly primaryKey: string = "id";
+  /**
+   * Timestamp columns filled automatically: createdAt on insert,
+   * updatedAt on insert and update (unless the caller sets them)
+   */
+  protected readonly timestampColumns?: {
+    createdAt?: string;
+    updatedAt?: string;
+  };
+  /**
+   * Column marking soft-deleted rows. When set, delete()/deleteAll() set it
+   * instead of removing rows, and reads exclude rows where it is not NULL
+   */
+  protected readonly softDeleteColumn?: string;
+  /** Whether soft-deleted rows are included in reads, see withDeleted() */
+  protected includeDeleted = false;
+  /**
+   * Whether update(), updateAndReturn(), delete() and restore() are recorded
+   * in the audit log, see withActor()
+   */
+  protected readonly audited: boolean = false;
+  /** Relations that can be loaded with the `include` option of find()/findAll() */
+  protected readonly relations: Record<string, RelationDefinition> = {};
+  /** Discord user ID recorded as the actor of audited changes */
+  protected actorId: string | null = null;
+  /** Set on the copy that performs an audited change so it is not audited twice */
+  private auditing = false;
+
+  constructor(protected db: Pool | PoolClient) {}
+
+  /**
+   * Quoted table name for use in SQL
+   */
+  protected get tableName(): string {
+    return quoteIdentifier(this.table);
+  }
+
+  /**
+   * Creates a copy of this query class that runs every query on the given client
+   * Used to bind query classes to a transaction, see transaction()
+   *
+   * @param client - Client to run queries on
+   * @returns Query class instance bound to the client
+   */
+  withClient(client: PoolClient): this {
+    const bound: this = Object.create(this);
+    bound.db = client;
+    return bound;
+  }
+
+  /**
+   * Creates a copy of this query class whose queries include soft-deleted rows
+   *
+   * @example
+   * const panel = await ticketPanelQueries.withDeleted().find({ messageId });
+   */
+  withDeleted(): this {
+    const scoped: this = Object.create(this);
+    scoped.includeDeleted = true;
+    return scoped;
+  }
+
+  /**
+   * Creates a copy of this query class that records the given user as the
+   * actor of audited changes
+   *
+   * @example
+   * await ticketQueries
+   *   .withActor(member.id)
+   *   .updateAndReturn({ ticketId }, { claimedBy: member.id });
+   */
+  withActor(actorId: string): this {
+    const scoped: this = Object.create(this);
+    scoped.actorId = actorId;
+    return scoped;
+  }
+
+  /**
+   * Runs a callback in a transaction, unless this instance already is bound to one
+   *
+   * @param fn - Callback receiving this query class bound to the transaction client
+   * @returns Promise resolving to the callback result
+   */
+  protected async inTransaction<T>(
+    fn: (queries: this) => Promise<T>
+  ): Promise<T> {
+    if (this.db instanceof pg.Pool) {
+      return transaction((tx) => fn(tx.bind(this)), { pool: this.db });
+    }
+
+    return fn(this);
+  }
+
+  /**
+   * Runs a change to a single entity and records it in the audit log
+   *
+   * The row is locked, changed and audited in one transaction. Only changed
+   * columns are recorded, changes that modify nothing are not recorded.
+   *
+   * @param action - Audited action
+   * @param identifier - Unique identifier of the changed entity
+   * @param change - Callback performing the change
+   * @returns Promise resolving to the result of the change
+   * @throws DatabaseError if locking or auditing the row fails, errors thrown
+   * by the change are rethrown unchanged
+   */
+  protected async audit<T>(
+    action: AuditAction,
+    identifier: NonNullable<TConfig["Identifier"]>,
+    change: (queries: this) => Promise<T>
+  ): Promise<T> {
+    return this.inTransaction(async (queries) => {
+      const keyColumn = this.getColumnName(this.primaryKey);
+      const { whereClause, values } = this.getColumnMapping(identifier);
+      const lockQuery = `SELECT * FROM ${this.tableName} WHERE ${whereClause} FOR UPDATE`;
+      const afterQuery = `SELECT * FROM ${
+        this.tableName
+      } WHERE ${quoteIdentifier(keyColumn)} = $1`;
+
+      // Errors of the change itself are passed on as thrown
+      const translated = async <R>(query: string, run: () => Promise<R>) => {
+        try {
+          return await run();
+        } catch (error) {
+          throw translateDatabaseError(error, query);
+        }
+      };
+
+      const before = (
+        await translated(lockQuery, () => queries.db.query(lockQuery, values))
+      ).rows[0];
+
+      const unaudited: this = Object.create(queries);
+      unaudited.auditing = true;
+      const result = await change(unaudited);
+
+      if (!before) return result;
+
+      const after =
+        (
+          await translated(afterQuery, () =>
+            queries.db.query(afterQuery, [before[keyColumn]])
+          )
+        ).rows[0] ?? null;
+
+      const diff = after ? diffRows(before, after) : { before, after: null };
+
+      if (diff) {
+        await translated(`INSERT INTO ${AUDIT_LOG_TABLE}`, () =>
+          recordAuditEntry(queries.db, {
+            tableName: this.table,
+            entityId: String(before[keyColumn]),
+            action,
+            actorId: this.actorId,
+            ...diff,
+          })
+        );
+      }
 
-  constructor(protected db: Pool) {}
+      return result;
+    });
+  }
+
+  /**
+   * Batch-loads relations onto entities, one query per relation
+   *
+   * hasMany relations are set to an array (empty if nothing matches),
+   * belongsTo relations to the related entity or null.
+   *
+   * @param entities - Entities to load the relations for
+   * @param include - Names of the relations to load
+   * @returns Promise resolving when the relations are set on the entities
+   * @throws Error if a relation is not defined on this query class
+   */
+  protected async loadRelations(
+    entities: Record<string, any>[],
+    include: string[]
+  ): Promise<void> {
+    if (entities.length === 0) return;
+
+    for (const name of include) {
+      const relation = this.relations[name];
+
+      if (!relation) {
+        throw new Error(`Unknown relation ${name} on ${this.table}`);
+      }
+
+      const keys = [
+        ...new Set(
+          entities
+            .map((entity) => entity[relation.localKey])
+            .filter((key) => key !== null && key !== undefined)
+        ),
+      ];
+
+      const related =
+        this.db instanceof pg.Pool
+          ? relation.queries()
+          : relation.queries().withClient(this.db);
+
+      const rows: Record<string, any>[] =
+        keys.length > 0
+          ? await related.findAll(
+              { [relation.foreignKey]: { in: keys } },
+              {
+                orderBy: relation.orderBy,
+                orderDirection: relation.orderDirection,
+              }
+            )
+          : [];
+
+      const byKey = new Map<unknown, Record<string, any>[]>();
+      for (const row of rows) {
+        const key = row[relation.foreignKey];
+        byKey.set(key, [...(byKey.get(key) ?? []), row]);
+      }
+
+      for (const entity of entities) {
+        const matches = byKey.get(entity[relation.localKey]) ?? [];
+        entity[name] =
+          relation.type === "hasMany" ? matches : matches[0] ?? null;
+      }
+    }
+  }
+
+  /**
+   * Restricts a WHERE clause to rows that are not soft-deleted
+   * Returns the clause unchanged if soft delete is disabled or withDeleted() is used
+   *
+   * @param whereClause - WHERE clause to restrict
+   * @returns Scoped WHERE clause
+   */
+  protected scope(whereClause: string): string {
+    if (!this.softDeleteColumn || this.includeDeleted) {
+      return whereClause;
+    }
+
+    return `(${whereClause}) AND ${quoteIdentifier(
+      this.softDeleteColumn
+    )} IS NULL`;
+  }
+
+  /**
+   * Adds timestamp columns that are not set yet to a column mapping
+   *
+   * @param mappings - Column-value pairs
+   * @param columns - Timestamp columns to add
+   * @returns Column-value pairs including the timestamps
+   */
+  protected addTimestamps(
+    mappings: { column: string; value: any }[],
+    columns: (string | undefined)[]
+  ): { column: string; value: any }[] {
+    const now = new Date();
+
+    for (const column of columns) {
+      if (column && !mappings.some((m) => m.column === column)) {
+        mappings.push({ column, value: now });
+      }
+    }
+
+    return mappings;
+  }
+
+  /**
+   * Gets the columns updated when an upsert hits a conflict
+   * Defaults to all inserted columns except createdAt, updatedAt is always included
+   *
+   * @param insertColumns - Columns of the INSERT statement
+   * @param updateFields - Entity keys explicitly requested to be updated
+   * @returns Column names for the DO UPDATE SET clause
+   */
+  protected getUpsertColumns(
+    insertColumns: string[],
+    updateFields?: string[]
+  ): string[] {
+    const columns = updateFields
+      ? updateFields.map((key) => this.getColumnName(key))
+      : insertColumns.filter(
+          (column) => column !== this.timestampColumns?.createdAt
+        );
+
+    const updatedAt = this.timestampColumns?.updatedAt;
+
+    return updatedAt && !columns.includes(updatedAt)
+      ? [...columns, updatedAt]
+      : columns;
+  }
 
   /**
    * Converts snake_case to camelCase
@@ -75,13 +404,35 @@ export abstract class BaseQueries<
 
   /**
    * Gets the database column name for a given key
-   * Uses COLUMN_MAP if provided, otherwise convers camelCase to snake_case
+   * The returned name is unquoted, use quoteIdentifier() to put it into SQL
    *
-   * @param key - Value to convert
+   * @param key - Entity key
    * @returns Database column name
+   * @throws InvalidColumnError if the key is not in COLUMN_MAP
    */
   protected getColumnName(key: string): string {
-    return this.COLUMN_MAP?.[key] ?? this.camelToSnake(key);
+    if (!Object.hasOwn(this.COLUMN_MAP, key)) {
+      throw new InvalidColumnError(this.table, key);
+    }
+
+    return this.COLUMN_MAP[key];
+  }
+
+  /**
+   * Validates a sort direction, which is put into the SQL text as is
+   *
+   * @param direction - Requested direction (defaults to ASC)
+   * @returns The direction
+   * @throws InvalidQueryError if the direction is not ASC or DESC
+   */
+  protected getSortDirection(direction: string = "ASC"): "ASC" | "DESC" {
+    if (direction !== "ASC" && direction !== "DESC") {
+      throw new InvalidQueryError(
+        `Invalid sort direction for ${this.table}: ${JSON.stringify(direction)}`
+      );
+    }
+
+    return direction;
   }
 
   /**
@@ -89,7 +440,7 @@ export abstract class BaseQueries<
    *
    * @param data - Data object
    * @returns Object containing the column and value
-   * @throws Error if data key is not found
+   * @throws InvalidColumnError if a data key is not a known column
    */
   protected getColumnMapping(data: Record<string, any>): {
     whereClause: string;
@@ -105,11 +456,7 @@ export abstract class BaseQueries<
     const values: any[] = [];
 
     entries.forEach(([key, value], index) => {
-      const column = this.getColumnName(key);
-
-      if (!column) {
-        throw new Error(`Invalid column key: ${key}`);
-      }
+      const column = quoteIdentifier(this.getColumnName(key));
 
       conditions.push(`${column} = $${index + 1}`);
       values.push(value);
@@ -128,10 +475,13 @@ export abstract class BaseQueries<
    * @returns Array of objects containing column names and values
    */
   protected getUpdateMapping(updates: Partial<NonNullable<TConfig["Update"]>>) {
-    return Object.entries(updates).map(([key, value]) => ({
-      column: this.getColumnName(key),
-      value,
-    }));
+    return this.addTimestamps(
+      Object.entries(updates).map(([key, value]) => ({
+        column: this.getColumnName(key),
+        value,
+      })),
+      [this.timestampColumns?.updatedAt]
+    );
   }
 
   /**
@@ -141,41 +491,214 @@ export abstract class BaseQueries<
    * @returns Array of objects containing column names and values
    */
   protected getCreateMapping(data: NonNullable<TConfig["Create"]>) {
-    return Object.entries(data).map(([key, value]) => ({
-      column: this.getColumnName(key),
-      value,
-    }));
+    return this.addTimestamps(
+      Object.entries(data).map(([key, value]) => ({
+        column: this.getColumnName(key),
+        value,
+      })),
+      [this.timestampColumns?.createdAt, this.timestampColumns?.updatedAt]
+    );
+  }
+
+  /**
+   * Creates a fluent filter builder typed against this query class' filters
+   *
+   * @example
+   * ticketQueries.findAll(
+   *   ticketQueries.where().gte("createdAt", weekAgo).in("status", ["open", "closed"])
+   * );
+   */
+  where(): FilterBuilder<NonNullable<TConfig["Filters"]>> {
+    return new FilterBuilder<NonNullable<TConfig["Filters"]>>();
+  }
+
+  /**
+   * Adds a parameter value and returns its placeholder
+   *
+   * @param params - Parameter list to append to
+   * @param value - Parameter value
+   * @returns Placeholder string (e.g. "$3")
+   */
+  protected addParam(params: any[], value: any): string {
+    params.push(value);
+    return `$${params.length}`;
+  }
+
+  /**
+   * Compiles the operators of a single column into SQL conditions
+   *
+   * @param column - Quoted database column name
+   * @param operators - Operators to apply to the column
+   * @param params - Parameter list placeholders are appended to
+   * @returns List of SQL conditions to be joined by AND
+   */
+  protected compileOperators(
+    column: string,
+    operators: FilterOperators<unknown>,
+    params: any[]
+  ): string[] {
+    const conditions: string[] = [];
+
+    for (const [operator, value] of Object.entries(operators)) {
+      if (value === undefined) continue;
+
+      switch (operator as keyof FilterOperators<unknown>) {
+        case "eq":
+          conditions.push(`${column} = ${this.addParam(params, value)}`);
+          break;
+        case "ne":
+          conditions.push(`${column} <> ${this.addParam(params, value)}`);
+          break;
+        case "gt":
+          conditions.push(`${column} > ${this.addParam(params, value)}`);
+          break;
+        case "gte":
+          conditions.push(`${column} >= ${this.addParam(params, value)}`);
+          break;
+        case "lt":
+          conditions.push(`${column} < ${this.addParam(params, value)}`);
+          break;
+        case "lte":
+          conditions.push(`${column} <= ${this.addParam(params, value)}`);
+          break;
+        case "in":
+          conditions.push(
+            value.length > 0
+              ? `${column} = ANY(${this.addParam(params, value)})`
+              : "FALSE"
+          );
+          break;
+        case "notIn":
+          // Excluding nothing is no condition
+          if (value.length > 0) {
+            conditions.push(
+              `${column} <> ALL(${this.addParam(params, value)})`
+            );
+          }
+          break;
+        case "like":
+          conditions.push(`${column} LIKE ${this.addParam(params, value)}`);
+          break;
+        case "ilike":
+          conditions.push(`${column} ILIKE ${this.addParam(params, value)}`);
+          break;
+        case "isNull":
+          conditions.push(`${column} IS ${value ? "NULL" : "NOT NULL"}`);
+          break;
+        case "between":
+          conditions.push(
+            `${column} BETWEEN ${this.addParam(
+              params,
+              value[0]
+            )} AND ${this.addParam(params, value[1])}`
+          );
+          break;
+        default:
+          throw new Error(`Unknown filter operator: ${operator}`);
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Recursively compiles a filter object into a SQL condition
+   *
+   * Parts that match every row (ignored values, empty notIn lists, an $or
+   * with an unconditional group) add no condition, so a filter that matches
+   * everything always compiles to null and can be refused by deleteAll().
+   *
+   * @param filter - Filter object
+   * @param params - Parameter list placeholders are appended to
+   * @returns SQL condition, or null if the filter has no conditions
+   * @throws InvalidQueryError if an $or or $and group is empty, or a $not
+   * group has no conditions
+   */
+  protected compileFilter(
+    filter: WhereFilter<NonNullable<TConfig["Filters"]>>,
+    params: any[]
+  ): string | null {
+    const conditions: string[] = [];
+
+    for (const [key, value] of Object.entries(filter)) {
+      if (value === undefined || value === null) continue;
+
+      if (key === "$or" || key === "$and") {
+        const groups = value as WhereFilter<any>[];
+
+        if (groups.length === 0) {
+          throw new InvalidQueryError(
+            `Empty ${key} group in ${this.table} filter`
+          );
+        }
+
+        const compiled = groups.map((group) =>
+          this.compileFilter(group, params)
+        );
+
+        if (key === "$or") {
+          // A group without conditions matches every row, and so does the $or
+          if (compiled.every((group): group is string => group !== null)) {
+            conditions.push(`(${compiled.join(" OR ")})`);
+          }
+        } else {
+          const restricting = compiled.filter(
+            (group): group is string => group !== null
+          );
+          if (restricting.length > 0) {
+            conditions.push(`(${restricting.join(" AND ")})`);
+          }
+        }
+        continue;
+      }
+
+      if (key === "$not") {
+        const group = this.compileFilter(value as WhereFilter<any>, params);
+
+        if (group === null) {
+          throw new InvalidQueryError(
+            `$not group without conditions in ${this.table} filter`
+          );
+        }
+
+        conditions.push(`NOT (${group})`);
+        continue;
+      }
+
+      const column = quoteIdentifier(this.getColumnName(key));
+
+      if (isFilterOperators(value)) {
+        conditions.push(...this.compileOperators(column, value, params));
+      } else {
+        conditions.push(`${column} = ${this.addParam(params, value)}`);
+      }
+    }
+
+    return conditions.length > 0 ? conditions.join(" AND ") : null;
   }
 
   /**
    * Builds WHERE clause from filter criteria
    *
-   * @param filters - Object containing filer data
+   * Plain values are compared by equality, operator objects
+   * (gt, gte, lt, lte, in, notIn, like, ilike, isNull, between, ...) and
+   * $or / $and / $not groups allow more complex conditions.
+   * Plain null/undefined values are ignored.
+   *
+   * @param filters - Filter object or fluent filter builder
    * @returns Object containing the WHERE clause and all parameter values
    */
   protected buildFilterClause(
-    filters: Partial<NonNullable<TConfig["Filters"]>>
+    filters: QueryFilter<NonNullable<TConfig["Filters"]>>
   ): {
     whereClause: string;
     params: any[];
   } {
-    const conditions: string[] = [];
     const params: any[] = [];
-    let paramIndex = 1;
-
-    for (const [key, value] of Object.entries(filters)) {
-      if (value !== undefined && value !== null) {
-        const column = this.getColumnName(key);
-        if (column) {
-          conditions.push(`${column} = $${paramIndex}`);
-          params.push(value);
-          paramIndex++;
-        }
-      }
-    }
+    const filter = filters instanceof FilterBuilder ? filters.build() : filters;
 
     return {
-      whereClause: conditions.length > 0 ? conditions.join(" AND ") : "1=1",
+      whereClause: this.compileFilter(filter, params) ?? "1=1",
       params,
     };
   }
@@ -189,22 +712,34 @@ export abstract class BaseQueries<
    * Returns null if not found
    *
    * @param identifier - Unique identifier
+   * @param options - Optional relations to load with the entity
    * @returns Promise resolving to the entity or null
    */
-  async find(
-    identifier: NonNullable<TConfig["Identifier"]>
-  ): Promise<TConfig["Entity"] | null> {
+  async find<K extends RelationName<TConfig> = never>(
+    identifier: NonNullable<TConfig["Identifier"]>,
+    options?: { include?: K[] }
+  ): Promise<WithRelations<TConfig, K> | null> {
     const { whereClause, values } = this.getColumnMapping(identifier);
-    const query = `SELECT * FROM ${this.table} WHERE ${whereClause} LIMIT 1`;
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.scope(
+      whereClause
+    )} LIMIT 1`;
+
+    let entity: TConfig["Entity"] | null;
 
     try {
       const result = await this.db.query<TConfig["DbEntity"]>(query, values);
 
-      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+      entity = result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
     } catch (error) {
       logger.error(`Failed to find ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
+
+    if (entity && options?.include?.length) {
+      await this.loadRelations([entity], options.include);
+    }
+
+    return entity as WithRelations<TConfig, K> | null;
   }
 
   /**
@@ -212,13 +747,15 @@ export abstract class BaseQueries<
    * Throws an error if not found
    *
    * @param identifier - Unique identifier
+   * @param options - Optional relations to load with the entity
    * @returns Promise resolving to the entity
    * @throws Error if entity is not found
    */
-  async get(
-    identifier: NonNullable<TConfig["Identifier"]>
-  ): Promise<TConfig["Entity"]> {
-    const entity = await this.find(identifier);
+  async get<K extends RelationName<TConfig> = never>(
+    identifier: NonNullable<TConfig["Identifier"]>,
+    options?: { include?: K[] }
+  ): Promise<WithRelations<TConfig, K>> {
+    const entity = await this.find(identifier, options);
 
     if (!entity) {
       throw createNotFoundError(this.table, identifier);
@@ -237,7 +774,9 @@ export abstract class BaseQueries<
     identifier: NonNullable<TConfig["Identifier"]>
   ): Promise<boolean> {
     const { whereClause, values } = this.getColumnMapping(identifier);
-    const query = `SELECT EXISTS(SELECT 1 FROM ${this.table} WHERE ${whereClause})`;
+    const query = `SELECT EXISTS(SELECT 1 FROM ${
+      this.tableName
+    } WHERE ${this.scope(whereClause)})`;
 
     try {
       const result = await this.db.query<{ exists: boolean }>(query, values);
@@ -245,7 +784,7 @@ export abstract class BaseQueries<
       return Boolean(result.rows[0].exists);
     } catch (error) {
       logger.error(`Failed to check ${this.table} existence:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -261,19 +800,28 @@ export abstract class BaseQueries<
     identifier: NonNullable<TConfig["Identifier"]>,
     updates: Partial<NonNullable<TConfig["Update"]>>
   ): Promise<void> {
+    if (this.audited && !this.auditing) {
+      await this.audit("update", identifier, (queries) =>
+        queries.update(identifier, updates)
+      );
+      return;
+    }
+
     const { whereClause, values: identifierValues } =
       this.getColumnMapping(identifier);
     const updateMappings = this.getUpdateMapping(updates);
 
     const setClauses = updateMappings.map(
       (mapping, index) =>
-        `${mapping.column} = $${identifierValues.length + index + 1}`
+        `${quoteIdentifier(mapping.column)} = $${
+          identifierValues.length + index + 1
+        }`
     );
 
     const query = `
-        UPDATE ${this.table}
+        UPDATE ${this.tableName}
         SET ${setClauses.join(", ")}
-        WHERE ${whereClause}`;
+        WHERE ${this.scope(whereClause)}`;
 
     const params = [...identifierValues, ...updateMappings.map((m) => m.value)];
 
@@ -285,7 +833,7 @@ export abstract class BaseQueries<
       }
     } catch (error) {
       logger.error(`Failed to update ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -301,19 +849,27 @@ export abstract class BaseQueries<
     identifier: NonNullable<TConfig["Identifier"]>,
     updates: Partial<NonNullable<TConfig["Update"]>>
   ): Promise<TConfig["Entity"]> {
+    if (this.audited && !this.auditing) {
+      return this.audit("update", identifier, (queries) =>
+        queries.updateAndReturn(identifier, updates)
+      );
+    }
+
     const { whereClause, values: identifierValues } =
       this.getColumnMapping(identifier);
     const updateMappings = this.getUpdateMapping(updates);
 
     const setClauses = updateMappings.map(
       (mapping, index) =>
-        `${mapping.column} = $${identifierValues.length + index + 2}`
+        `${quoteIdentifier(mapping.column)} = $${
+          identifierValues.length + index + 1
+        }`
     );
 
     const query = `
-        UPDATE ${this.table}
+        UPDATE ${this.tableName}
         SET ${setClauses.join(", ")}
-        WHERE ${whereClause}
+        WHERE ${this.scope(whereClause)}
         RETURNING *`;
 
     const params = [...identifierValues, ...updateMappings.map((m) => m.value)];
@@ -328,20 +884,32 @@ export abstract class BaseQueries<
       return this.mapRowToEntity(result.rows[0]);
     } catch (error) {
       logger.error(`Failed to update ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
   /**
    * Deletes a single entity by unique identifier
+   * Soft-deletes the entity if the table uses soft delete
    *
    * @param identifier - Unique identifier to find the entity
    * @returns Promise resolving when the deletion is complete
    * @throws Error if no entity is found with the specified identifier
    */
   async delete(identifier: NonNullable<TConfig["Identifier"]>): Promise<void> {
+    if (this.audited && !this.auditing) {
+      await this.audit("delete", identifier, (queries) =>
+        queries.delete(identifier)
+      );
+      return;
+    }
+
     const { whereClause, values } = this.getColumnMapping(identifier);
-    const query = `DELETE FROM ${this.table} WHERE ${whereClause}`;
+    const query = this.softDeleteColumn
+      ? `UPDATE ${this.tableName} SET ${quoteIdentifier(
+          this.softDeleteColumn
+        )} = NOW() WHERE ${this.scope(whereClause)}`
+      : `DELETE FROM ${this.tableName} WHERE ${whereClause}`;
 
     try {
       const result = await this.db.query(query, values);
@@ -351,7 +919,50 @@ export abstract class BaseQueries<
       }
     } catch (error) {
       logger.error(`Failed to delete ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
+    }
+  }
+
+  /**
+   * Restores a soft-deleted entity
+   *
+   * @param identifier - Unique identifier to find the entity
+   * @returns Promise resolving to the restored entity
+   * @throws Error if the table does not use soft delete
+   * @throws NotFoundError if no soft-deleted entity matches the identifier
+   */
+  async restore(
+    identifier: NonNullable<TConfig["Identifier"]>
+  ): Promise<TConfig["Entity"]> {
+    if (!this.softDeleteColumn) {
+      throw new Error(`${this.table} does not use soft delete`);
+    }
+
+    if (this.audited && !this.auditing) {
+      return this.audit("restore", identifier, (queries) =>
+        queries.restore(identifier)
+      );
+    }
+
+    const { whereClause, values } = this.getColumnMapping(identifier);
+    const softDeleteColumn = quoteIdentifier(this.softDeleteColumn);
+    const query = `
+        UPDATE ${this.tableName}
+        SET ${softDeleteColumn} = NULL
+        WHERE ${whereClause} AND ${softDeleteColumn} IS NOT NULL
+        RETURNING *`;
+
+    try {
+      const result = await this.db.query<TConfig["DbEntity"]>(query, values);
+
+      if (result.rowCount === 0) {
+        throw createNotFoundError(this.table, identifier);
+      }
+
+      return this.mapRowToEntity(result.rows[0]);
+    } catch (error) {
+      logger.error(`Failed to restore ${this.table}:`, error);
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -363,27 +974,39 @@ export abstract class BaseQueries<
    * Finds all entities matching the filter criteria
    *
    * @param filters - Optional filter criteria (can be partial)
-   * @param options - Optional pagination and sorting options
+   * @param options - Optional pagination, sorting and relation options
    * @returns Promise resolving to an array of entities
+   *
+   * @example
+   * const tickets = await ticketQueries.findAll(
+   *   { status: "open" },
+   *   { include: ["participants"] }
+   * );
+   * tickets[0].participants; // TicketParticipant[]
    */
-  async findAll(
-    filters?: Partial<NonNullable<TConfig["Filters"]>>,
+  async findAll<K extends RelationName<TConfig> = never>(
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>,
     options?: {
       limit?: number;
       offset?: number;
       orderBy?: string;
       orderDirection?: "ASC" | "DESC";
+      include?: K[];
     }
-  ): Promise<TConfig["Entity"][]> {
+  ): Promise<WithRelations<TConfig, K>[]> {
     const { whereClause, params } = filters
       ? this.buildFilterClause(filters)
       : { whereClause: "1=1", params: [] };
 
-    let query = `SELECT * FROM ${this.table} WHERE ${whereClause}`;
+    let query = `SELECT * FROM ${this.tableName} WHERE ${this.scope(
+      whereClause
+    )}`;
 
     if (options?.orderBy) {
-      const orderColumn = this.getColumnName(options.orderBy);
-      query += ` ORDER BY ${orderColumn} ${options.orderDirection || "ASC"}`;
+      const orderColumn = quoteIdentifier(this.getColumnName(options.orderBy));
+      query += ` ORDER BY ${orderColumn} ${this.getSortDirection(
+        options.orderDirection
+      )}`;
     }
 
     if (options?.limit) {
@@ -396,13 +1019,21 @@ export abstract class BaseQueries<
       params.push(options.offset);
     }
 
+    let entities: TConfig["Entity"][];
+
     try {
       const result = await this.db.query<TConfig["DbEntity"]>(query, params);
-      return this.mapRowsToEntities(result.rows);
+      entities = this.mapRowsToEntities(result.rows);
     } catch (error) {
       logger.error(`Failed to find all ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
+    }
+
+    if (options?.include?.length) {
+      await this.loadRelations(entities, options.include);
     }
+
+    return entities as WithRelations<TConfig, K>[];
   }
 
   /**
@@ -421,9 +1052,102 @@ export abstract class BaseQueries<
     return this.findAll(undefined, options);
   }
 
+  /**
+   * Retrieves one page of entities using keyset (cursor) pagination
+   *
+   * Unlike LIMIT/OFFSET, the cost of a page does not grow with its position.
+   * Rows are ordered by the order column with the primary key as tie-breaker,
+   * so pages are stable even when many rows share the same order value.
+   * The order column should not contain NULL values.
+   *
+   * @param options - Filters, order column, page size and cursor of the page
+   * @returns Promise resolving to the page items and the cursor of the next page
+   *
+   * @example
+   * let cursor: string | null = null;
+   * do {
+   *   const page = await ticketMessageQueries.paginate({
+   *     filters: { ticketId },
+   *     orderBy: "createdAt",
+   *     cursor,
+   *   });
+   *   cursor = page.nextCursor;
+   * } while (cursor);
+   */
+  async paginate(
+    options: PaginateOptions<QueryFilter<NonNullable<TConfig["Filters"]>>> = {}
+  ): Promise<Page<TConfig["Entity"]>> {
+    const limit = options.limit ?? 25;
+    const direction = this.getSortDirection(options.orderDirection);
+    const keyColumn = this.getColumnName(this.primaryKey);
+    const orderColumn = this.getColumnName(options.orderBy ?? this.primaryKey);
+    const quotedKey = quoteIdentifier(keyColumn);
+    const quotedOrder = quoteIdentifier(orderColumn);
+
+    const { whereClause, params } = options.filters
+      ? this.buildFilterClause(options.filters)
+      : { whereClause: "1=1", params: [] };
+
+    const conditions = [this.scope(whereClause)];
+
+    if (options.cursor) {
+      const [orderValue, keyValue] = decodeCursor(options.cursor);
+      const operator = direction === "ASC" ? ">" : "<";
+
+      conditions.push(
+        orderColumn === keyColumn
+          ? `${quotedKey} ${operator} ${this.addParam(params, keyValue)}`
+          : `(${quotedOrder}, ${quotedKey}) ${operator} (${this.addParam(
+              params,
+              orderValue
+            )}, ${this.addParam(params, keyValue)})`
+      );
+    }
+
+    const orderClause =
+      orderColumn === keyColumn
+        ? `${quotedKey} ${direction}`
+        : `${quotedOrder} ${direction}, ${quotedKey} ${direction}`;
+
+    // The text value is compared against the column in the next page's
+    // condition, where PostgreSQL parses it back at full precision
+    const query = `
+        SELECT *, ${quotedOrder}::text AS ${quoteIdentifier(CURSOR_ORDER_VALUE)}
+        FROM ${this.tableName}
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY ${orderClause}
+        LIMIT ${this.addParam(params, limit + 1)}`;
+
+    try {
+      const result = await this.db.query<TConfig["DbEntity"]>(query, params);
+
+      const hasMore = result.rows.length > limit;
+      const rows = result.rows.slice(0, limit);
+      const last = rows[rows.length - 1];
+      const nextCursor =
+        hasMore && last
+          ? encodeCursor([last[CURSOR_ORDER_VALUE], last[keyColumn]])
+          : null;
+
+      for (const row of rows) {
+        delete row[CURSOR_ORDER_VALUE];
+      }
+
+      return {
+        items: this.mapRowsToEntities(rows),
+        nextCursor,
+        hasMore,
+      };
+    } catch (error) {
+      logger.error(`Failed to paginate ${this.table}:`, error);
+      throw translateDatabaseError(error, query);
+    }
+  }
+
   /**
    * Updates all entities matching the filter criteria
-   * If no filers provided, updates ALL records in the table
+   * If no filers provided, updates ALL records in the table. Filters that
+   * match every record (e.g. only undefined values) are refused.
    *
    * @param updates - Object containing fields to update
    * @param filtters - Optional filter criteria to match specific entries
@@ -431,22 +1155,30 @@ export abstract class BaseQueries<
    */
   async updateAll(
     updates: Partial<NonNullable<TConfig["Update"]>>,
-    filters?: Partial<NonNullable<TConfig["Filters"]>>
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
   ): Promise<number> {
     const { whereClause, params } = filters
       ? this.buildFilterClause(filters)
       : { whereClause: "1=1", params: [] };
 
+    if (filters && whereClause === "1=1") {
+      // Most likely a filter value was undefined by mistake
+      throw new Error(
+        `updateAll filters on ${this.table} match every record. Leave out the filters to update all records`
+      );
+    }
+
     const updateMappings = this.getUpdateMapping(updates);
 
     const setClauses = updateMappings.map(
-      (mapping, index) => `${mapping.column} = $${params.length + index + 1}`
+      (mapping, index) =>
+        `${quoteIdentifier(mapping.column)} = $${params.length + index + 1}`
     );
 
     const query = `
-        UPDATE ${this.table}
+        UPDATE ${this.tableName}
         SET ${setClauses.join(", ")}
-        WHERE ${whereClause}`;
+        WHERE ${this.scope(whereClause)}`;
 
     const allParams = [...params, ...updateMappings.map((m) => m.value)];
 
@@ -457,28 +1189,35 @@ export abstract class BaseQueries<
       return result.rowCount || 0;
     } catch (error) {
       logger.error(`Failed to update ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
   /**
    * Deletes all entities matching the filter criteria
-   * Filters are required to prevent accidental table-wide deletion
+   * Filters are required to prevent accidental table-wide deletion, filters
+   * that match every record (e.g. `{ $or: [{ key: undefined }] }`) are refused
+   * Soft-deletes the entities if the table uses soft delete
    *
    * @param filters - Filter criteria to match specific entities (required)
    * @returns Promise resolving to the number of rows affected
    */
   async deleteAll(
-    filters: Partial<NonNullable<TConfig["Filters"]>>
+    filters: QueryFilter<NonNullable<TConfig["Filters"]>>
   ): Promise<number> {
-    if (!filters || Object.keys(filters).length === 0) {
+    const { whereClause, params } = this.buildFilterClause(filters ?? {});
+
+    if (whereClause === "1=1") {
       throw new Error(
         `deleteAll requires at least one filter. Use drop() to delete all records from ${this.table}`
       );
     }
 
-    const { whereClause, params } = this.buildFilterClause(filters);
-    const query = `DELETE FROM ${this.table} WHERE ${whereClause}`;
+    const query = this.softDeleteColumn
+      ? `UPDATE ${this.tableName} SET ${quoteIdentifier(
+          this.softDeleteColumn
+        )} = NOW() WHERE ${this.scope(whereClause)}`
+      : `DELETE FROM ${this.tableName} WHERE ${whereClause}`;
 
     try {
       const result = await this.db.query(query, params);
@@ -486,19 +1225,20 @@ export abstract class BaseQueries<
       return result.rowCount || 0;
     } catch (error) {
       logger.error(`Failed to delete from ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
   /**
    * Drops all records from the table
    * This is equivalent to TRUNCATE but returns the count of deleted rows
+   * Rows are always removed, even if the table uses soft delete
    * Use with extreme caution - this cannot be undone
    *
    * @returns Promise resolving to the number of rows deleted
    */
   async drop(): Promise<number> {
-    const query = `DELETE FROM ${this.table}`;
+    const query = `DELETE FROM ${this.tableName}`;
 
     try {
       const result = await this.db.query(query);
@@ -508,7 +1248,7 @@ export abstract class BaseQueries<
       return result.rowCount || 0;
     } catch (error) {
       logger.error(`Failed to drop ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -525,7 +1265,7 @@ export abstract class BaseQueries<
     cascade?: boolean;
     restartIdentity?: boolean;
   }): Promise<void> {
-    let query = `TRUNCATE TABLE ${this.table}`;
+    let query = `TRUNCATE TABLE ${this.tableName}`;
 
     if (options?.restartIdentity) {
       query += " RESTART IDENTITY";
@@ -540,7 +1280,7 @@ export abstract class BaseQueries<
       logger.warn(`TRUNCATED table ${this.table}`);
     } catch (error) {
       logger.error(`Failed to truncate ${this.table}`);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -557,20 +1297,22 @@ export abstract class BaseQueries<
   async create(data: NonNullable<TConfig["Create"]>): Promise<void> {
     const createMappings = this.getCreateMapping(data);
 
-    const columns = createMappings.map((m) => m.column).join(", ");
+    const columns = createMappings
+      .map((m) => quoteIdentifier(m.column))
+      .join(", ");
     const placeholders = createMappings
       .map((_, index) => `$${index + 1}`)
       .join(", ");
 
     const values = createMappings.map((m) => m.value);
 
-    const query = `INSERT INTO ${this.table} (${columns}) VALUES (${placeholders})`;
+    const query = `INSERT INTO ${this.tableName} (${columns}) VALUES (${placeholders})`;
 
     try {
       await this.db.query(query, values);
     } catch (error) {
       logger.error(`Failed to create ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -585,13 +1327,15 @@ export abstract class BaseQueries<
   ): Promise<TConfig["Entity"]> {
     const createMappings = this.getCreateMapping(data);
 
-    const columns = createMappings.map((m) => m.column).join(", ");
+    const columns = createMappings
+      .map((m) => quoteIdentifier(m.column))
+      .join(", ");
     const placeholders = createMappings
       .map((_, index) => `$${index + 1}`)
       .join(", ");
     const values = createMappings.map((m) => m.value);
 
-    const query = `INSERT INTO ${this.table} (${columns}) VALUES (${placeholders}) RETURNING *`;
+    const query = `INSERT INTO ${this.tableName} (${columns}) VALUES (${placeholders}) RETURNING *`;
 
     try {
       const result = await this.db.query<TConfig["DbEntity"]>(query, values);
@@ -599,7 +1343,7 @@ export abstract class BaseQueries<
       return this.mapRowToEntity(result.rows[0]);
     } catch (error) {
       logger.error(`Failed to create ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -620,28 +1364,32 @@ export abstract class BaseQueries<
     updateFields?: Array<keyof NonNullable<TConfig["Create"]>>
   ): Promise<TConfig["Entity"]> {
     const createMappings = this.getCreateMapping(data);
-    const columns = createMappings.map((m) => m.column).join(", ");
+    const columns = createMappings
+      .map((m) => quoteIdentifier(m.column))
+      .join(", ");
     const placeholders = createMappings
       .map((_, index) => `$${index + 1}`)
       .join(", ");
     const values = createMappings.map((m) => m.value);
 
-    const conflictColumns = Array.isArray(conflictTarget)
-      ? conflictTarget
-          .map((key) => this.getColumnName(key as string))
-          .join(", ")
-      : this.getColumnName(conflictTarget as string);
+    const conflictColumns = (
+      Array.isArray(conflictTarget) ? conflictTarget : [conflictTarget]
+    )
+      .map((key) => quoteIdentifier(this.getColumnName(key as string)))
+      .join(", ");
 
-    const fieldsToUpdate = updateFields
-      ? updateFields.map((key) => this.getColumnName(key as string))
-      : createMappings.map((m) => m.column);
+    const fieldsToUpdate = this.getUpsertColumns(
+      createMappings.map((m) => m.column),
+      updateFields as string[] | undefined
+    );
 
     const updateClause = fieldsToUpdate
+      .map(quoteIdentifier)
       .map((col) => `${col} = EXCLUDED.${col}`)
       .join(", ");
 
     const query = `
-        INSERT INTO ${this.table} (${columns})
+        INSERT INTO ${this.tableName} (${columns})
         VALUES (${placeholders})
         ON CONFLICT (${conflictColumns})
         DO UPDATE SET ${updateClause}
@@ -653,7 +1401,185 @@ export abstract class BaseQueries<
       return this.mapRowToEntity(result.rows[0]);
     } catch (error) {
       logger.error(`Failed to upsert ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
+    }
+  }
+
+  /**
+   * Splits rows into multi-row INSERT chunks that stay under the parameter limit
+   *
+   * Columns are the union of all row keys; a row missing a column inserts
+   * DEFAULT for it.
+   *
+   * @param rows - Rows to insert
+   * @returns Column list and one VALUES clause with its params per chunk
+   */
+  protected buildInsertChunks(rows: NonNullable<TConfig["Create"]>[]): {
+    columns: string[];
+    chunks: { valuesClause: string; params: any[] }[];
+  } {
+    const mappedRows = rows.map(
+      (row) =>
+        new Map(this.getCreateMapping(row).map((m) => [m.column, m.value]))
+    );
+    const columns = [...new Set(mappedRows.flatMap((row) => [...row.keys()]))];
+    const rowsPerChunk = Math.max(
+      1,
+      Math.floor(MAX_QUERY_PARAMS / Math.max(columns.length, 1))
+    );
+
+    const chunks: { valuesClause: string; params: any[] }[] = [];
+
+    for (let i = 0; i < mappedRows.length; i += rowsPerChunk) {
+      const params: any[] = [];
+      const tuples = mappedRows.slice(i, i + rowsPerChunk).map((row) => {
+        const values = columns.map((column) =>
+          row.has(column) ? this.addParam(params, row.get(column)) : "DEFAULT"
+        );
+        return `(${values.join(", ")})`;
+      });
+
+      chunks.push({ valuesClause: tuples.join(", "), params });
+    }
+
+    return { columns, chunks };
+  }
+
+  /**
+   * Runs one statement per chunk and collects the returned rows
+   * Multiple chunks run in a single transaction so a failing chunk inserts nothing
+   *
+   * @param chunks - Statements and params to run
+   * @returns Promise resolving to all returned entities
+   * @throws DatabaseError carrying the statement of the chunk that failed
+   */
+  protected async runChunks(
+    chunks: { query: string; params: any[] }[]
+  ): Promise<TConfig["Entity"][]> {
+    const run = async (
+      queries: BaseQueries<TConfig>
+    ): Promise<TConfig["Entity"][]> => {
+      const entities: TConfig["Entity"][] = [];
+
+      for (const { query, params } of chunks) {
+        try {
+          const result = await queries.db.query<TConfig["DbEntity"]>(
+            query,
+            params
+          );
+          entities.push(...this.mapRowsToEntities(result.rows));
+        } catch (error) {
+          throw translateDatabaseError(error, query);
+        }
+      }
+
+      return entities;
+    };
+
+    return chunks.length > 1 ? this.inTransaction(run) : run(this);
+  }
+
+  /**
+   * Creates many entities using multi-row INSERT statements
+   *
+   * Inputs are chunked to stay under PostgreSQL's bind parameter limit. When
+   * several chunks are needed they are inserted in a single transaction.
+   *
+   * @param rows - Array of creation data objects
+   * @returns Promise resolving to the created entities
+   */
+  async createMany(
+    rows: NonNullable<TConfig["Create"]>[]
+  ): Promise<TConfig["Entity"][]> {
+    if (rows.length === 0) return [];
+
+    const { columns, chunks } = this.buildInsertChunks(rows);
+    const queries = chunks.map(({ valuesClause, params }) => ({
+      query: `INSERT INTO ${this.tableName} (${columns
+        .map(quoteIdentifier)
+        .join(", ")}) VALUES ${valuesClause} RETURNING *`,
+      params,
+    }));
+
+    try {
+      const entities = await this.runChunks(queries);
+      logger.info(`Created ${entities.length} ${this.table} record(s)`);
+      return entities;
+    } catch (error) {
+      logger.error(`Failed to create many ${this.table}:`, error);
+      throw translateDatabaseError(error);
+    }
+  }
+
+  /**
+   * Inserts or updates many entities using multi-row INSERT ... ON CONFLICT
+   *
+   * PostgreSQL rejects a statement that touches the same row twice, so rows
+   * with the same conflict target values are deduplicated, the last one wins.
+   *
+   * @param rows - Array of creation data objects
+   * @param conflictTarget - Column(s) to check for conflicts
+   * @param updateFields - Fields to update on conflict (defaults to all inserted columns)
+   * @returns Promise resolving to the upserted entities
+   */
+  async upsertMany(
+    rows: NonNullable<TConfig["Create"]>[],
+    conflictTarget:
+      | keyof NonNullable<TConfig["Create"]>
+      | Array<keyof NonNullable<TConfig["Create"]>>,
+    updateFields?: Array<keyof NonNullable<TConfig["Create"]>>
+  ): Promise<TConfig["Entity"][]> {
+    if (rows.length === 0) return [];
+
+    const conflictKeys = (
+      Array.isArray(conflictTarget) ? conflictTarget : [conflictTarget]
+    ) as string[];
+
+    const uniqueRows = [
+      ...new Map(
+        rows.map((row) => [
+          JSON.stringify(
+            conflictKeys.map((key) => (row as Record<string, unknown>)[key])
+          ),
+          row,
+        ])
+      ).values(),
+    ];
+
+    const { columns, chunks } = this.buildInsertChunks(uniqueRows);
+    const conflictColumns = conflictKeys.map((key) =>
+      quoteIdentifier(this.getColumnName(key))
+    );
+
+    const fieldsToUpdate = this.getUpsertColumns(
+      columns,
+      updateFields as string[] | undefined
+    );
+
+    const updateClause = fieldsToUpdate
+      .map(quoteIdentifier)
+      .map((col) => `${col} = EXCLUDED.${col}`)
+      .join(", ");
+
+    const queries = chunks.map(({ valuesClause, params }) => ({
+      query: `
+        INSERT INTO ${this.tableName} (${columns
+        .map(quoteIdentifier)
+        .join(", ")})
+        VALUES ${valuesClause}
+        ON CONFLICT (${conflictColumns.join(", ")})
+        DO UPDATE SET ${updateClause}
+        RETURNING *`,
+      params,
+    }));
+
+    try {
+      const entities = await this.runChunks(queries);
+      logger.info(`Upserted ${entities.length} ${this.table} record(s)`);
+      return entities;
+    } catch (error) {
+      logger.error(`Failed to upsert many ${this.table}:`, error);
+      throw translateDatabaseError(error);
     }
   }
 
@@ -668,21 +1594,169 @@ export abstract class BaseQueries<
    * @returns Promise resolving to the count
    */
   async count(
-    filters?: Partial<NonNullable<TConfig["Filters"]>>
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
   ): Promise<number> {
     const { whereClause, params } = filters
       ? this.buildFilterClause(filters)
       : { whereClause: "1=1", params: [] };
 
-    const query = `SELECT COUNT(*) FROM ${this.table} WHERE ${whereClause}`;
+    const query = `SELECT COUNT(*) FROM ${this.tableName} WHERE ${this.scope(
+      whereClause
+    )}`;
 
     try {
-      const result = await this.db.query<{ count: number }>(query, params);
+      // COUNT(*) is a bigint, which pg returns as a string
+      const result = await this.db.query<{ count: string }>(query, params);
 
-      return result.rows[0].count ?? 0;
+      return Number(result.rows[0].count);
     } catch (error) {
       logger.error(`Failed to count ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
+    }
+  }
+
+  /**
+   * Runs an aggregate function over a column of the entities matching the filters
+   *
+   * @param fn - Aggregate function
+   * @param key - Entity key of the aggregated column
+   * @param filters - Optional filter criteria
+   * @returns Promise resolving to the raw aggregate value (null if no rows match)
+   */
+  protected async aggregate(
+    fn: "SUM" | "AVG" | "MIN" | "MAX",
+    key: string,
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
+  ): Promise<unknown> {
+    const column = quoteIdentifier(this.getColumnName(key));
+    const { whereClause, params } = filters
+      ? this.buildFilterClause(filters)
+      : { whereClause: "1=1", params: [] };
+
+    const query = `SELECT ${fn}(${column}) AS value FROM ${
+      this.tableName
+    } WHERE ${this.scope(whereClause)}`;
+
+    try {
+      const result = await this.db.query<{ value: unknown }>(query, params);
+
+      return result.rows[0].value;
+    } catch (error) {
+      logger.error(`Failed to compute ${fn} of ${this.table}.${key}:`, error);
+      throw translateDatabaseError(error, query);
+    }
+  }
+
+  /**
+   * Sums a numeric column of the entities matching the filters
+   * SUM returns bigint/numeric, which pg returns as strings, the result is parsed
+   *
+   * @param key - Entity key of the summed column
+   * @param filters - Optional filter criteria
+   * @returns Promise resolving to the sum (0 if no rows match)
+   */
+  async sum(
+    key: keyof TConfig["Entity"] & string,
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
+  ): Promise<number> {
+    const value = await this.aggregate("SUM", key, filters);
+
+    return value === null ? 0 : Number(value);
+  }
+
+  /**
+   * Averages a numeric column of the entities matching the filters
+   *
+   * @param key - Entity key of the averaged column
+   * @param filters - Optional filter criteria
+   * @returns Promise resolving to the average, or null if no rows match
+   */
+  async avg(
+    key: keyof TConfig["Entity"] & string,
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
+  ): Promise<number | null> {
+    const value = await this.aggregate("AVG", key, filters);
+
+    return value === null ? null : Number(value);
+  }
+
+  /**
+   * Gets the smallest value of a column among the entities matching the filters
+   * Values keep the column type (e.g. Date for timestamps)
+   *
+   * @param key - Entity key of the column
+   * @param filters - Optional filter criteria
+   * @returns Promise resolving to the minimum, or null if no rows match
+   */
+  async min<K extends keyof TConfig["Entity"] & string>(
+    key: K,
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
+  ): Promise<TConfig["Entity"][K] | null> {
+    return (await this.aggregate("MIN", key, filters)) as
+      | TConfig["Entity"][K]
+      | null;
+  }
+
+  /**
+   * Gets the largest value of a column among the entities matching the filters
+   * Values keep the column type (e.g. Date for timestamps)
+   *
+   * @param key - Entity key of the column
+   * @param filters - Optional filter criteria
+   * @returns Promise resolving to the maximum, or null if no rows match
+   */
+  async max<K extends keyof TConfig["Entity"] & string>(
+    key: K,
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
+  ): Promise<TConfig["Entity"][K] | null> {
+    return (await this.aggregate("MAX", key, filters)) as
+      | TConfig["Entity"][K]
+      | null;
+  }
+
+  /**
+   * Counts the entities matching the filters per distinct value of a column
+   * Groups are sorted by count, largest first
+   *
+   * @param key - Entity key of the grouped column
+   * @param filters - Optional filter criteria
+   * @returns Promise resolving to one { value, count } pair per group
+   *
+   * @example
+   * // Archived tickets per category
+   * const stats = await ticketQueries.groupCount("categoryKey", {
+   *   archived: true,
+   * });
+   */
+  async groupCount<K extends keyof TConfig["Entity"] & string>(
+    key: K,
+    filters?: QueryFilter<NonNullable<TConfig["Filters"]>>
+  ): Promise<{ value: TConfig["Entity"][K]; count: number }[]> {
+    const column = quoteIdentifier(this.getColumnName(key));
+    const { whereClause, params } = filters
+      ? this.buildFilterClause(filters)
+      : { whereClause: "1=1", params: [] };
+
+    const query = `
+        SELECT ${column} AS value, COUNT(*) AS count
+        FROM ${this.tableName}
+        WHERE ${this.scope(whereClause)}
+        GROUP BY ${column}
+        ORDER BY count DESC, ${column} ASC`;
+
+    try {
+      const result = await this.db.query<{
+        value: TConfig["Entity"][K];
+        count: string;
+      }>(query, params);
+
+      return result.rows.map((row) => ({
+        value: row.value,
+        count: Number(row.count),
+      }));
+    } catch (error) {
+      logger.error(`Failed to group count ${this.table}.${key}:`, error);
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -701,7 +1775,7 @@ export abstract class BaseQueries<
       return this.mapRowsToEntities(result.rows);
     } catch (error) {
       logger.error(`Failed to execute raw query on ${this.table}:`, error);
-      throw error;
+      throw translateDatabaseError(error, query);
     }
   }
 
@@ -709,9 +1783,18 @@ export abstract class BaseQueries<
    * Begins a database transaction
    * Returns a transaction client that must be commited or rolled back
    *
+   * @deprecated Use transaction() from "@/db/utils/transaction", which commits,
+   * rolls back and releases the client automatically
    * @returns Promise resolving to the transaction client
+   * @throws Error if this instance is already bound to a client
    */
-  async begin() {
+  async begin(): Promise<PoolClient> {
+    if (!(this.db instanceof pg.Pool)) {
+      throw new Error(
+        `Cannot begin a transaction on ${this.table} queries bound to a client`
+      );
+    }
+
     const client = await this.db.connect();
     await client.query("BEGIN");
     return client;
@@ -0,0 +1,87 @@
+import db from "@/db";
+import logger from "@/logger";
+import { BaseQueries } from "./base.queries";
+import { COOLDOWNS_COLUMN_MAP } from "../types/generated";
+import { translateDatabaseError } from "../utils/errors";
+import type {
+  Cooldown,
+  CooldownCreate,
+  CooldownQueryConfig,
+} from "../types/cooldowns.types";
+
+/**
+ * Query class for the cooldowns table
+ */
+export class CooldownQueries extends BaseQueries<CooldownQueryConfig> {
+  protected readonly table = "cooldowns";
+  protected readonly COLUMN_MAP = COOLDOWNS_COLUMN_MAP;
+  protected readonly primaryKey = "key";
+
+  /**
+   * Finds all cooldowns that have not expired yet
+   *
+   * @returns Promise resolving to the active cooldowns
+   */
+  async findActive(): Promise<Cooldown[]> {
+    return this.findAll({ expiresAt: { gt: new Date() } });
+  }
+
+  /**
+   * Finds the cooldown of a key if it has not expired yet
+   *
+   * @param key - Cooldown key
+   * @returns Promise resolving to the active cooldown or null
+   */
+  async findActiveByKey(key: string): Promise<Cooldown | null> {
+    const [cooldown] = await this.findAll({
+      key,
+      expiresAt: { gt: new Date() },
+    });
+
+    return cooldown ?? null;
+  }
+
+  /**
+   * Atomically reads and replaces the cooldown of a key
+   *
+   * Runs in a transaction holding an advisory lock on the key, so calls for
+   * the same key are serialized across all processes, even while no row
+   * exists for the key yet.
+   *
+   * @param key - Cooldown key
+   * @param update - Receives the active cooldown or null, returns the
+   * cooldown to store or null to keep the current one
+   * @returns Promise resolving to the stored cooldown, or null if nothing was
+   * stored
+   */
+  async modify(
+    key: string,
+    update: (cooldown: Cooldown | null) => CooldownCreate | null
+  ): Promise<Cooldown | null> {
+    return this.inTransaction(async (queries) => {
+      const query = "SELECT pg_advisory_xact_lock(hashtext($1))";
+
+      try {
+        await queries.db.query(query, [key]);
+      } catch (error) {
+        logger.error(`Failed to lock cooldown ${key}:`, error);
+        throw translateDatabaseError(error, query);
+      }
+
+      const data = update(await queries.findActiveByKey(key));
+
+      return data ? queries.upsert(data, "key") : null;
+    });
+  }
+
+  /**
+   * Deletes all expired cooldowns
+   *
+   * @returns Promise resolving to the number of deleted rows
+   */
+  async deleteExpired(): Promise<number> {
+    return this.deleteAll({ expiresAt: { lte: new Date() } });
+  }
+}
+
+export const cooldownQueries = new CooldownQueries(db);
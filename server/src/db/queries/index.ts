@@ -0,0 +1,16 @@
+export { BaseQueries } from "./base.queries";
+export { ticketQueries, TicketQueries } from "./tickets.queries";
+export {
+  ticketParticipantQueries,
+  TicketParticipantQueries,
+} from "./ticket-participants.queries";
+export {
+  ticketMessageQueries,
+  TicketMessageQueries,
+} from "./ticket-messages.queries";
+export {
+  ticketPanelQueries,
+  TicketPanelQueries,
+} from "./ticket-panels.queries";
+export { auditLogQueries, AuditLogQueries } from "./audit-log.queries";
+export { cooldownQueries, CooldownQueries } from "./cooldowns.queries";
@@ -0,0 +1,52 @@
+import db from "@/db";
+import { BaseQueries } from "./base.queries";
+import { TICKET_MESSAGES_COLUMN_MAP } from "../types/generated";
+import { ticketQueries } from "./tickets.queries";
+import type { RelationDefinitions } from "../utils/relations";
+import type {
+  TicketMessageCreate,
+  TicketMessageQueryConfig,
+  TicketMessageUpdate,
+} from "../types/tickets.types";
+
+/**
+ * JSONB columns that must be serialized before being sent to PostgreSQL
+ * (pg would otherwise encode JS arrays as PostgreSQL arrays)
+ */
+const JSON_COLUMNS = new Set(["attachments", "embeds"]);
+
+/**
+ * Query class for the ticket_messages table
+ */
+export class TicketMessageQueries extends BaseQueries<TicketMessageQueryConfig> {
+  protected readonly table = "ticket_messages";
+  protected readonly COLUMN_MAP = TICKET_MESSAGES_COLUMN_MAP;
+  protected readonly relations: RelationDefinitions<TicketMessageQueryConfig> =
+    {
+      ticket: {
+        type: "belongsTo",
+        queries: () => ticketQueries,
+        localKey: "ticketId",
+        foreignKey: "ticketId",
+      },
+    };
+
+  protected override getCreateMapping(data: TicketMessageCreate) {
+    return super.getCreateMapping(data).map(serializeJsonColumn);
+  }
+
+  protected override getUpdateMapping(updates: Partial<TicketMessageUpdate>) {
+    return super.getUpdateMapping(updates).map(serializeJsonColumn);
+  }
+}
+
+/**
+ * Serializes the value of a JSONB column mapping
+ */
+function serializeJsonColumn(mapping: { column: string; value: any }) {
+  return JSON_COLUMNS.has(mapping.column)
+    ? { column: mapping.column, value: JSON.stringify(mapping.value) }
+    : mapping;
+}
+
+export const ticketMessageQueries = new TicketMessageQueries(db);
@@ -0,0 +1,43 @@
+import db from "@/db";
+import { BaseQueries } from "./base.queries";
+import { TICKET_PANELS_COLUMN_MAP } from "../types/generated";
+import type {
+  TicketPanelCreate,
+  TicketPanelQueryConfig,
+  TicketPanelUpdate,
+} from "../types/tickets.types";
+
+/**
+ * Query class for the ticket_panels table
+ * Removed panels are soft-deleted and updated_at is maintained automatically
+ * Updates and removals are recorded in the audit log
+ */
+export class TicketPanelQueries extends BaseQueries<TicketPanelQueryConfig> {
+  protected readonly table = "ticket_panels";
+  protected readonly COLUMN_MAP = TICKET_PANELS_COLUMN_MAP;
+  protected readonly timestampColumns = {
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+  };
+  protected readonly softDeleteColumn = "deleted_at";
+  protected readonly audited = true;
+
+  protected override getCreateMapping(data: TicketPanelCreate) {
+    return super.getCreateMapping(data).map(serializePanelConfig);
+  }
+
+  protected override getUpdateMapping(updates: Partial<TicketPanelUpdate>) {
+    return super.getUpdateMapping(updates).map(serializePanelConfig);
+  }
+}
+
+/**
+ * Serializes the panel_config JSONB column value
+ */
+function serializePanelConfig(mapping: { column: string; value: any }) {
+  return mapping.column === "panel_config"
+    ? { column: mapping.column, value: JSON.stringify(mapping.value) }
+    : mapping;
+}
+
+export const ticketPanelQueries = new TicketPanelQueries(db);
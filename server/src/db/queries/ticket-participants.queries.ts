@@ -0,0 +1,25 @@
+import db from "@/db";
+import { BaseQueries } from "./base.queries";
+import { TICKET_PARTICIPANTS_COLUMN_MAP } from "../types/generated";
+import { ticketQueries } from "./tickets.queries";
+import type { RelationDefinitions } from "../utils/relations";
+import type { TicketParticipantQueryConfig } from "../types/tickets.types";
+
+/**
+ * Query class for the ticket_participants table
+ */
+export class TicketParticipantQueries extends BaseQueries<TicketParticipantQueryConfig> {
+  protected readonly table = "ticket_participants";
+  protected readonly COLUMN_MAP = TICKET_PARTICIPANTS_COLUMN_MAP;
+  protected readonly relations: RelationDefinitions<TicketParticipantQueryConfig> =
+    {
+      ticket: {
+        type: "belongsTo",
+        queries: () => ticketQueries,
+        localKey: "ticketId",
+        foreignKey: "ticketId",
+      },
+    };
+}
+
+export const ticketParticipantQueries = new TicketParticipantQueries(db);
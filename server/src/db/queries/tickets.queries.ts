@@ -0,0 +1,188 @@
+import db from "@/db";
+import logger from "@/logger";
+import { BaseQueries } from "./base.queries";
+import { TICKETS_COLUMN_MAP } from "../types/generated";
+import { ticketParticipantQueries } from "./ticket-participants.queries";
+import { ticketMessageQueries } from "./ticket-messages.queries";
+import type { RelationDefinitions } from "../utils/relations";
+import { translateDatabaseError } from "../utils/errors";
+import type {
+  Ticket,
+  TicketQueryConfig,
+  TicketRow,
+} from "../types/tickets.types";
+
+/**
+ * Query class for the tickets table
+ * Updates are recorded in the audit log
+ */
+export class TicketQueries extends BaseQueries<TicketQueryConfig> {
+  protected readonly table = "tickets";
+  protected readonly COLUMN_MAP = TICKETS_COLUMN_MAP;
+  protected readonly primaryKey = "ticketId";
+  protected readonly audited = true;
+  protected readonly relations: RelationDefinitions<TicketQueryConfig> = {
+    participants: {
+      type: "hasMany",
+      queries: () => ticketParticipantQueries,
+      localKey: "ticketId",
+      foreignKey: "ticketId",
+      orderBy: "addedAt",
+    },
+    messages: {
+      type: "hasMany",
+      queries: () => ticketMessageQueries,
+      localKey: "ticketId",
+      foreignKey: "ticketId",
+      orderBy: "createdAt",
+    },
+  };
+
+  /**
+   * Allocates the next sequential ticket number for a category
+   *
+   * Uses the get_next_ticket_number database function, which increments a
+   * per-category row in ticket_counters. The row lock taken by the upsert
+   * serializes concurrent callers, so two tickets opened at the same time
+   * never receive the same number. An allocated number is consumed even if
+   * the ticket is never created.
+   *
+   * @param categoryKey - Ticket category key
+   * @returns Promise resolving to the allocated ticket number
+   */
+  async allocateTicketNumber(categoryKey: string): Promise<number> {
+    const query = `SELECT get_next_ticket_number($1) AS next_number`;
+
+    try {
+      const result = await this.db.query<{ next_number: number }>(query, [
+        categoryKey,
+      ]);
+
+      return result.rows[0].next_number;
+    } catch (error) {
+      logger.error(
+        `Failed to allocate ticket number for ${categoryKey}:`,
+        error
+      );
+      throw translateDatabaseError(error, query);
+    }
+  }
+
+  /**
+   * Locks the open tickets of a creator until the transaction ends
+   *
+   * Takes a transaction-scoped advisory lock on the creator, so callers that
+   * check the open ticket limit and then create a ticket are serialized per
+   * user. Must run in a transaction, see transaction().
+   *
+   * @param creatorId - Discord user ID of the ticket creator
+   * @returns Promise resolving once the lock is held
+   */
+  async lockCreator(creatorId: string): Promise<void> {
+    const query = "SELECT pg_advisory_xact_lock(hashtext($1))";
+
+    try {
+      await this.db.query(query, [`tickets:creator:${creatorId}`]);
+    } catch (error) {
+      logger.error(`Failed to lock tickets of ${creatorId}:`, error);
+      throw translateDatabaseError(error, query);
+    }
+  }
+
+  /**
+   * Claims an open ticket for a staff member unless it is already claimed
+   *
+   * The claim is a single conditional update, so when several staff members
+   * claim at the same moment exactly one of them succeeds. Recorded in the
+   * audit log with the staff member as actor.
+   *
+   * @param ticketId - ID of the ticket to claim
+   * @param staffId - Discord user ID of the staff member
+   * @returns Promise resolving to the claimed ticket, or null if the ticket
+   * is already claimed or no longer open
+   */
+  async claim(ticketId: number, staffId: string): Promise<Ticket | null> {
+    const query = `
+        UPDATE ${this.tableName}
+        SET claimed_by = $2, claimed_at = NOW()
+        WHERE ticket_id = $1 AND status = 'open' AND claimed_by IS NULL
+        RETURNING *`;
+
+    return this.withActor(staffId).audit(
+      "update",
+      { ticketId },
+      async (queries) => {
+        try {
+          const result = await queries.db.query<TicketRow>(query, [
+            ticketId,
+            staffId,
+          ]);
+
+          return result.rows[0] ? queries.mapRowToEntity(result.rows[0]) : null;
+        } catch (error) {
+          logger.error(`Failed to claim ticket ${ticketId}:`, error);
+          throw translateDatabaseError(error, query);
+        }
+      }
+    );
+  }
+
+  /**
+   * Closes an open ticket
+   *
+   * Like claim() a single conditional update, so when the ticket is closed
+   * several times at the same moment exactly one close succeeds. Recorded in
+   * the audit log with the closing member as actor.
+   *
+   * @param ticketId - ID of the ticket to close
+   * @param closedBy - Discord user ID of the member closing the ticket
+   * @param reason - Optional reason stored as close_reason
+   * @returns Promise resolving to the closed ticket, or null if the ticket
+   * is no longer open
+   */
+  async close(
+    ticketId: number,
+    closedBy: string,
+    reason: string | null
+  ): Promise<Ticket | null> {
+    const query = `
+        UPDATE ${this.tableName}
+        SET status = 'closed', closed_at = NOW(), closed_by = $2, close_reason = $3
+        WHERE ticket_id = $1 AND status = 'open'
+        RETURNING *`;
+
+    return this.withActor(closedBy).audit(
+      "update",
+      { ticketId },
+      async (queries) => {
+        try {
+          const result = await queries.db.query<TicketRow>(query, [
+            ticketId,
+            closedBy,
+            reason,
+          ]);
+
+          return result.rows[0] ? queries.mapRowToEntity(result.rows[0]) : null;
+        } catch (error) {
+          logger.error(`Failed to close ticket ${ticketId}:`, error);
+          throw translateDatabaseError(error, query);
+        }
+      }
+    );
+  }
+
+  /**
+   * Finds all open tickets created by a user
+   *
+   * @param creatorId - Discord user ID of the ticket creator
+   * @returns Promise resolving to the user's open tickets
+   */
+  async findOpenByCreator(creatorId: string): Promise<Ticket[]> {
+    return this.findAll(
+      { creatorId, status: "open" },
+      { orderBy: "createdAt", orderDirection: "DESC" }
+    );
+  }
+}
+
+export const ticketQueries = new TicketQueries(db);
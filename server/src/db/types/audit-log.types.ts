@@ -0,0 +1,65 @@
+import type { Narrow } from "./narrow.types";
+import type {
+  AuditLogEntity as GeneratedAuditLogEntity,
+  AuditLogFilters as GeneratedAuditLogFilters,
+  AuditLogIdentifier,
+  AuditLogQueryConfig as GeneratedAuditLogQueryConfig,
+  AuditLogRow as GeneratedAuditLogRow,
+} from "./generated";
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+export type AuditAction = "update" | "delete" | "restore";
+
+/**
+ * Column values captured before or after a change, keyed by column name
+ */
+export type AuditSnapshot = Record<string, unknown>;
+
+/**
+ * Raw audit_log row as returned by PostgreSQL
+ * BIGSERIAL ids are returned as strings by pg
+ */
+export type AuditLogRow = Narrow<
+  GeneratedAuditLogRow,
+  {
+    action: AuditAction;
+    before: AuditSnapshot | null;
+    after: AuditSnapshot | null;
+  }
+>;
+
+/**
+ * Audit log entry with camelCase keys
+ */
+export type AuditLogEntry = Narrow<
+  GeneratedAuditLogEntity,
+  {
+    action: AuditAction;
+    before: AuditSnapshot | null;
+    after: AuditSnapshot | null;
+  }
+>;
+
+export type { AuditLogIdentifier };
+
+export type AuditLogFilters = Narrow<
+  GeneratedAuditLogFilters,
+  { action: AuditAction }
+>;
+
+/**
+ * Audit entries are written by BaseQueries only, see recordAuditEntry()
+ */
+export type AuditLogQueryConfig = Narrow<
+  GeneratedAuditLogQueryConfig,
+  {
+    Entity: AuditLogEntry;
+    DbEntity: AuditLogRow;
+    Filters: AuditLogFilters;
+    Update: never;
+    Create: never;
+  }
+>;
@@ -0,0 +1,54 @@
+import type { Narrow } from "./narrow.types";
+import type {
+  CooldownsCreate,
+  CooldownsEntity,
+  CooldownsFilters,
+  CooldownsIdentifier,
+  CooldownsQueryConfig,
+  CooldownsRow,
+  CooldownsUpdate,
+} from "./generated";
+
+// ============================================================================
+// COOLDOWNS
+// ============================================================================
+
+export type CooldownType = "user" | "global" | "channel" | "guild";
+
+/**
+ * Raw cooldowns row as returned by PostgreSQL
+ */
+export type CooldownRow = Narrow<CooldownsRow, { cooldown_type: CooldownType }>;
+
+/**
+ * Cooldown entity with camelCase keys
+ * `uses` holds the uses still counting towards a sliding-window limit, oldest first
+ */
+export type Cooldown = Narrow<CooldownsEntity, { cooldownType: CooldownType }>;
+
+export type CooldownIdentifier = CooldownsIdentifier;
+
+export type CooldownFilters = Narrow<
+  CooldownsFilters,
+  { cooldownType: CooldownType }
+>;
+
+export type CooldownCreate = Narrow<
+  CooldownsCreate,
+  { cooldownType: CooldownType; startedAt: Date }
+>;
+
+/**
+ * Only the state of a cooldown changes, its key and target stay fixed
+ */
+export type CooldownUpdate = Pick<CooldownsUpdate, "expiresAt" | "uses">;
+
+export type CooldownQueryConfig = Narrow<
+  Omit<CooldownsQueryConfig, "Update">,
+  {
+    Entity: Cooldown;
+    DbEntity: CooldownRow;
+    Filters: CooldownFilters;
+    Create: CooldownCreate;
+  }
+> & { Update: CooldownUpdate };
@@ -0,0 +1,87 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+/**
+ * Raw audit_log row as returned by PostgreSQL
+ */
+export interface AuditLogRow {
+  id: string;
+  table_name: string;
+  entity_id: string;
+  action: string;
+  actor_id: string | null;
+  before: unknown | null;
+  after: unknown | null;
+  created_at: Date;
+}
+
+/**
+ * Entity of the audit_log table with camelCase keys
+ */
+export interface AuditLogEntity {
+  id: string;
+  tableName: string;
+  entityId: string;
+  action: string;
+  actorId: string | null;
+  before: unknown | null;
+  after: unknown | null;
+  createdAt: Date;
+}
+
+export type AuditLogIdentifier = { id: string };
+
+export interface AuditLogFilters {
+  id: string;
+  tableName: string;
+  entityId: string;
+  action: string;
+  actorId: string;
+  before: unknown;
+  after: unknown;
+  createdAt: Date;
+}
+
+export interface AuditLogCreate {
+  id?: string;
+  tableName: string;
+  entityId: string;
+  action: string;
+  actorId?: string | null;
+  before?: unknown | null;
+  after?: unknown | null;
+  createdAt?: Date;
+}
+
+export interface AuditLogUpdate {
+  tableName: string;
+  entityId: string;
+  action: string;
+  actorId: string | null;
+  before: unknown | null;
+  after: unknown | null;
+  createdAt: Date;
+}
+
+export type AuditLogQueryConfig = {
+  Entity: AuditLogEntity;
+  DbEntity: AuditLogRow;
+  Identifier: AuditLogIdentifier;
+  Filters: AuditLogFilters;
+  Update: AuditLogUpdate;
+  Create: AuditLogCreate;
+};
+
+/**
+ * Entity keys of audit_log mapped to their column names
+ */
+export const AUDIT_LOG_COLUMN_MAP = {
+  id: "id",
+  tableName: "table_name",
+  entityId: "entity_id",
+  action: "action",
+  actorId: "actor_id",
+  before: "before",
+  after: "after",
+  createdAt: "created_at",
+} as const;
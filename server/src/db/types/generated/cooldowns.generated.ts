@@ -0,0 +1,81 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+/**
+ * Raw cooldowns row as returned by PostgreSQL
+ */
+export interface CooldownsRow {
+  key: string;
+  command_name: string;
+  cooldown_type: string;
+  user_id: string;
+  started_at: Date;
+  expires_at: Date;
+  uses: Date[];
+}
+
+/**
+ * Entity of the cooldowns table with camelCase keys
+ */
+export interface CooldownsEntity {
+  key: string;
+  commandName: string;
+  cooldownType: string;
+  userId: string;
+  startedAt: Date;
+  expiresAt: Date;
+  uses: Date[];
+}
+
+export type CooldownsIdentifier = { key: string };
+
+export interface CooldownsFilters {
+  key: string;
+  commandName: string;
+  cooldownType: string;
+  userId: string;
+  startedAt: Date;
+  expiresAt: Date;
+  uses: Date[];
+}
+
+export interface CooldownsCreate {
+  key: string;
+  commandName: string;
+  cooldownType: string;
+  userId: string;
+  startedAt?: Date;
+  expiresAt: Date;
+  uses?: Date[];
+}
+
+export interface CooldownsUpdate {
+  commandName: string;
+  cooldownType: string;
+  userId: string;
+  startedAt: Date;
+  expiresAt: Date;
+  uses: Date[];
+}
+
+export type CooldownsQueryConfig = {
+  Entity: CooldownsEntity;
+  DbEntity: CooldownsRow;
+  Identifier: CooldownsIdentifier;
+  Filters: CooldownsFilters;
+  Update: CooldownsUpdate;
+  Create: CooldownsCreate;
+};
+
+/**
+ * Entity keys of cooldowns mapped to their column names
+ */
+export const COOLDOWNS_COLUMN_MAP = {
+  key: "key",
+  commandName: "command_name",
+  cooldownType: "cooldown_type",
+  userId: "user_id",
+  startedAt: "started_at",
+  expiresAt: "expires_at",
+  uses: "uses",
+} as const;
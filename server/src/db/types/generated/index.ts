@@ -0,0 +1,10 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+export * from "./audit-log.generated";
+export * from "./cooldowns.generated";
+export * from "./ticket-counters.generated";
+export * from "./ticket-messages.generated";
+export * from "./ticket-panels.generated";
+export * from "./ticket-participants.generated";
+export * from "./tickets.generated";
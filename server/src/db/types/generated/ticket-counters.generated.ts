@@ -0,0 +1,57 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+/**
+ * Raw ticket_counters row as returned by PostgreSQL
+ */
+export interface TicketCountersRow {
+  category_key: string;
+  last_number: number;
+  updated_at: Date;
+}
+
+/**
+ * Entity of the ticket_counters table with camelCase keys
+ */
+export interface TicketCountersEntity {
+  categoryKey: string;
+  lastNumber: number;
+  updatedAt: Date;
+}
+
+export type TicketCountersIdentifier = { categoryKey: string };
+
+export interface TicketCountersFilters {
+  categoryKey: string;
+  lastNumber: number;
+  updatedAt: Date;
+}
+
+export interface TicketCountersCreate {
+  categoryKey: string;
+  lastNumber?: number;
+  updatedAt?: Date;
+}
+
+export interface TicketCountersUpdate {
+  lastNumber: number;
+  updatedAt: Date;
+}
+
+export type TicketCountersQueryConfig = {
+  Entity: TicketCountersEntity;
+  DbEntity: TicketCountersRow;
+  Identifier: TicketCountersIdentifier;
+  Filters: TicketCountersFilters;
+  Update: TicketCountersUpdate;
+  Create: TicketCountersCreate;
+};
+
+/**
+ * Entity keys of ticket_counters mapped to their column names
+ */
+export const TICKET_COUNTERS_COLUMN_MAP = {
+  categoryKey: "category_key",
+  lastNumber: "last_number",
+  updatedAt: "updated_at",
+} as const;
@@ -0,0 +1,101 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+/**
+ * Raw ticket_messages row as returned by PostgreSQL
+ */
+export interface TicketMessagesRow {
+  id: number;
+  ticket_id: number;
+  message_id: string;
+  author_id: string;
+  author_username: string;
+  content: string | null;
+  created_at: Date;
+  edited_at: Date | null;
+  attachments: unknown | null;
+  embeds: unknown | null;
+}
+
+/**
+ * Entity of the ticket_messages table with camelCase keys
+ */
+export interface TicketMessagesEntity {
+  id: number;
+  ticketId: number;
+  messageId: string;
+  authorId: string;
+  authorUsername: string;
+  content: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  attachments: unknown | null;
+  embeds: unknown | null;
+}
+
+export type TicketMessagesIdentifier =
+  | { id: number }
+  | { ticketId: number; messageId: string };
+
+export interface TicketMessagesFilters {
+  id: number;
+  ticketId: number;
+  messageId: string;
+  authorId: string;
+  authorUsername: string;
+  content: string;
+  createdAt: Date;
+  editedAt: Date;
+  attachments: unknown;
+  embeds: unknown;
+}
+
+export interface TicketMessagesCreate {
+  id?: number;
+  ticketId: number;
+  messageId: string;
+  authorId: string;
+  authorUsername: string;
+  content?: string | null;
+  createdAt: Date;
+  editedAt?: Date | null;
+  attachments?: unknown | null;
+  embeds?: unknown | null;
+}
+
+export interface TicketMessagesUpdate {
+  ticketId: number;
+  messageId: string;
+  authorId: string;
+  authorUsername: string;
+  content: string | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  attachments: unknown | null;
+  embeds: unknown | null;
+}
+
+export type TicketMessagesQueryConfig = {
+  Entity: TicketMessagesEntity;
+  DbEntity: TicketMessagesRow;
+  Identifier: TicketMessagesIdentifier;
+  Filters: TicketMessagesFilters;
+  Update: TicketMessagesUpdate;
+  Create: TicketMessagesCreate;
+};
+
+/**
+ * Entity keys of ticket_messages mapped to their column names
+ */
+export const TICKET_MESSAGES_COLUMN_MAP = {
+  id: "id",
+  ticketId: "ticket_id",
+  messageId: "message_id",
+  authorId: "author_id",
+  authorUsername: "author_username",
+  content: "content",
+  createdAt: "created_at",
+  editedAt: "edited_at",
+  attachments: "attachments",
+  embeds: "embeds",
+} as const;
@@ -0,0 +1,81 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+/**
+ * Raw ticket_panels row as returned by PostgreSQL
+ */
+export interface TicketPanelsRow {
+  id: number;
+  channel_id: string;
+  message_id: string;
+  panel_config: unknown;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+/**
+ * Entity of the ticket_panels table with camelCase keys
+ */
+export interface TicketPanelsEntity {
+  id: number;
+  channelId: string;
+  messageId: string;
+  panelConfig: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+export type TicketPanelsIdentifier = { id: number } | { messageId: string };
+
+export interface TicketPanelsFilters {
+  id: number;
+  channelId: string;
+  messageId: string;
+  panelConfig: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date;
+}
+
+export interface TicketPanelsCreate {
+  id?: number;
+  channelId: string;
+  messageId: string;
+  panelConfig: unknown;
+  createdAt?: Date;
+  updatedAt?: Date;
+  deletedAt?: Date | null;
+}
+
+export interface TicketPanelsUpdate {
+  channelId: string;
+  messageId: string;
+  panelConfig: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+export type TicketPanelsQueryConfig = {
+  Entity: TicketPanelsEntity;
+  DbEntity: TicketPanelsRow;
+  Identifier: TicketPanelsIdentifier;
+  Filters: TicketPanelsFilters;
+  Update: TicketPanelsUpdate;
+  Create: TicketPanelsCreate;
+};
+
+/**
+ * Entity keys of ticket_panels mapped to their column names
+ */
+export const TICKET_PANELS_COLUMN_MAP = {
+  id: "id",
+  channelId: "channel_id",
+  messageId: "message_id",
+  panelConfig: "panel_config",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+  deletedAt: "deleted_at",
+} as const;
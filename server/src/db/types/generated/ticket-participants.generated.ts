@@ -0,0 +1,71 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+/**
+ * Raw ticket_participants row as returned by PostgreSQL
+ */
+export interface TicketParticipantsRow {
+  id: number;
+  ticket_id: number;
+  user_id: string;
+  added_at: Date;
+  added_by: string;
+}
+
+/**
+ * Entity of the ticket_participants table with camelCase keys
+ */
+export interface TicketParticipantsEntity {
+  id: number;
+  ticketId: number;
+  userId: string;
+  addedAt: Date;
+  addedBy: string;
+}
+
+export type TicketParticipantsIdentifier =
+  | { id: number }
+  | { ticketId: number; userId: string };
+
+export interface TicketParticipantsFilters {
+  id: number;
+  ticketId: number;
+  userId: string;
+  addedAt: Date;
+  addedBy: string;
+}
+
+export interface TicketParticipantsCreate {
+  id?: number;
+  ticketId: number;
+  userId: string;
+  addedAt?: Date;
+  addedBy: string;
+}
+
+export interface TicketParticipantsUpdate {
+  ticketId: number;
+  userId: string;
+  addedAt: Date;
+  addedBy: string;
+}
+
+export type TicketParticipantsQueryConfig = {
+  Entity: TicketParticipantsEntity;
+  DbEntity: TicketParticipantsRow;
+  Identifier: TicketParticipantsIdentifier;
+  Filters: TicketParticipantsFilters;
+  Update: TicketParticipantsUpdate;
+  Create: TicketParticipantsCreate;
+};
+
+/**
+ * Entity keys of ticket_participants mapped to their column names
+ */
+export const TICKET_PARTICIPANTS_COLUMN_MAP = {
+  id: "id",
+  ticketId: "ticket_id",
+  userId: "user_id",
+  addedAt: "added_at",
+  addedBy: "added_by",
+} as const;
@@ -0,0 +1,132 @@
+// This file is generated by `npm run util:generate-types`, do not edit it.
+// Run the script again after changing the database schema.
+
+/**
+ * Raw tickets row as returned by PostgreSQL
+ */
+export interface TicketsRow {
+  ticket_id: number;
+  channel_id: string | null;
+  creator_id: string;
+  category_key: string;
+  ticket_number: number;
+  status: string;
+  claimed_by: string | null;
+  claimed_at: Date | null;
+  created_at: Date;
+  closed_at: Date | null;
+  archived: boolean;
+  archive_path: string | null;
+  archive_format: string | null;
+  close_reason: string | null;
+  closed_by: string | null;
+}
+
+/**
+ * Entity of the tickets table with camelCase keys
+ */
+export interface TicketsEntity {
+  ticketId: number;
+  channelId: string | null;
+  creatorId: string;
+  categoryKey: string;
+  ticketNumber: number;
+  status: string;
+  claimedBy: string | null;
+  claimedAt: Date | null;
+  createdAt: Date;
+  closedAt: Date | null;
+  archived: boolean;
+  archivePath: string | null;
+  archiveFormat: string | null;
+  closeReason: string | null;
+  closedBy: string | null;
+}
+
+export type TicketsIdentifier =
+  | { ticketId: number }
+  | { channelId: string }
+  | { categoryKey: string; ticketNumber: number };
+
+export interface TicketsFilters {
+  ticketId: number;
+  channelId: string;
+  creatorId: string;
+  categoryKey: string;
+  ticketNumber: number;
+  status: string;
+  claimedBy: string;
+  claimedAt: Date;
+  createdAt: Date;
+  closedAt: Date;
+  archived: boolean;
+  archivePath: string;
+  archiveFormat: string;
+  closeReason: string;
+  closedBy: string;
+}
+
+export interface TicketsCreate {
+  ticketId?: number;
+  channelId?: string | null;
+  creatorId: string;
+  categoryKey: string;
+  ticketNumber: number;
+  status?: string;
+  claimedBy?: string | null;
+  claimedAt?: Date | null;
+  createdAt?: Date;
+  closedAt?: Date | null;
+  archived?: boolean;
+  archivePath?: string | null;
+  archiveFormat?: string | null;
+  closeReason?: string | null;
+  closedBy?: string | null;
+}
+
+export interface TicketsUpdate {
+  channelId: string | null;
+  creatorId: string;
+  categoryKey: string;
+  ticketNumber: number;
+  status: string;
+  claimedBy: string | null;
+  claimedAt: Date | null;
+  createdAt: Date;
+  closedAt: Date | null;
+  archived: boolean;
+  archivePath: string | null;
+  archiveFormat: string | null;
+  closeReason: string | null;
+  closedBy: string | null;
+}
+
+export type TicketsQueryConfig = {
+  Entity: TicketsEntity;
+  DbEntity: TicketsRow;
+  Identifier: TicketsIdentifier;
+  Filters: TicketsFilters;
+  Update: TicketsUpdate;
+  Create: TicketsCreate;
+};
+
+/**
+ * Entity keys of tickets mapped to their column names
+ */
+export const TICKETS_COLUMN_MAP = {
+  ticketId: "ticket_id",
+  channelId: "channel_id",
+  creatorId: "creator_id",
+  categoryKey: "category_key",
+  ticketNumber: "ticket_number",
+  status: "status",
+  claimedBy: "claimed_by",
+  claimedAt: "claimed_at",
+  createdAt: "created_at",
+  closedAt: "closed_at",
+  archived: "archived",
+  archivePath: "archive_path",
+  archiveFormat: "archive_format",
+  closeReason: "close_reason",
+  closedBy: "closed_by",
+} as const;
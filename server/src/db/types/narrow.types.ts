@@ -0,0 +1,14 @@
+/**
+ * Replaces properties of a generated type with narrower types
+ *
+ * Every key of U must be a property of T and every replacement must be
+ * assignable to the generated property type, so hand-written types fail the
+ * type-check when a column is renamed or its type changes.
+ *
+ * @example
+ * type Ticket = Narrow<TicketsEntity, { status: TicketStatus }>;
+ */
+export type Narrow<
+  T,
+  U extends { [K in keyof U]: K extends keyof T ? T[K] : never }
+> = Omit<T, keyof U> & U;
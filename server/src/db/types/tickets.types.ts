@@ -0,0 +1,247 @@
+import type { APIEmbed } from "discord.js";
+import type { Narrow } from "./narrow.types";
+import type {
+  TicketMessagesCreate,
+  TicketMessagesEntity,
+  TicketMessagesFilters,
+  TicketMessagesIdentifier,
+  TicketMessagesQueryConfig,
+  TicketMessagesRow,
+  TicketMessagesUpdate,
+  TicketPanelsCreate,
+  TicketPanelsEntity,
+  TicketPanelsFilters,
+  TicketPanelsIdentifier,
+  TicketPanelsQueryConfig,
+  TicketPanelsRow,
+  TicketPanelsUpdate,
+  TicketParticipantsCreate,
+  TicketParticipantsEntity,
+  TicketParticipantsFilters,
+  TicketParticipantsIdentifier,
+  TicketParticipantsQueryConfig,
+  TicketParticipantsRow,
+  TicketsCreate,
+  TicketsEntity,
+  TicketsFilters,
+  TicketsIdentifier,
+  TicketsQueryConfig,
+  TicketsRow,
+  TicketsUpdate,
+} from "./generated";
+
+// Types are derived from the generated ones in ./generated, narrowing status
+// columns to unions and JSONB columns to their shapes
+
+// ============================================================================
+// TICKETS
+// ============================================================================
+
+export type TicketStatus = "open" | "closed";
+
+export type TicketArchiveFormat = "json" | "txt" | "html";
+
+/**
+ * Raw tickets row as returned by PostgreSQL
+ */
+export type TicketRow = Narrow<
+  TicketsRow,
+  { status: TicketStatus; archive_format: TicketArchiveFormat | null }
+>;
+
+/**
+ * Ticket entity with camelCase keys
+ */
+export type Ticket = Narrow<
+  TicketsEntity,
+  { status: TicketStatus; archiveFormat: TicketArchiveFormat | null }
+>;
+
+export type TicketIdentifier = TicketsIdentifier;
+
+export type TicketFilters = Narrow<
+  TicketsFilters,
+  { status: TicketStatus; archiveFormat: TicketArchiveFormat }
+>;
+
+export type TicketCreate = Narrow<
+  TicketsCreate,
+  { status?: TicketStatus; archiveFormat?: TicketArchiveFormat | null }
+>;
+
+/**
+ * Columns that change during the ticket lifecycle, the creator, category
+ * and number of a ticket are fixed
+ */
+export type TicketUpdate = Pick<
+  Narrow<
+    TicketsUpdate,
+    { status: TicketStatus; archiveFormat: TicketArchiveFormat | null }
+  >,
+  | "channelId"
+  | "status"
+  | "claimedBy"
+  | "claimedAt"
+  | "closedAt"
+  | "closedBy"
+  | "closeReason"
+  | "archived"
+  | "archivePath"
+  | "archiveFormat"
+>;
+
+export type TicketQueryConfig = Narrow<
+  Omit<TicketsQueryConfig, "Update">,
+  {
+    Entity: Ticket;
+    DbEntity: TicketRow;
+    Filters: TicketFilters;
+    Create: TicketCreate;
+  }
+> & {
+  Update: TicketUpdate;
+  Relations: {
+    participants: TicketParticipant[];
+    messages: TicketMessage[];
+  };
+};
+
+// ============================================================================
+// TICKET PARTICIPANTS
+// ============================================================================
+
+export type TicketParticipantRow = TicketParticipantsRow;
+
+export type TicketParticipant = TicketParticipantsEntity;
+
+export type TicketParticipantIdentifier = TicketParticipantsIdentifier;
+
+export type TicketParticipantFilters = TicketParticipantsFilters;
+
+export type TicketParticipantCreate = TicketParticipantsCreate;
+
+/**
+ * Participants are added and removed, never updated
+ */
+export type TicketParticipantQueryConfig = Omit<
+  TicketParticipantsQueryConfig,
+  "Update"
+> & {
+  Update: never;
+  Relations: {
+    ticket: Ticket | null;
+  };
+};
+
+// ============================================================================
+// TICKET MESSAGES
+// ============================================================================
+
+export interface TicketMessageAttachment {
+  id: string;
+  name: string;
+  url: string;
+  contentType: string | null;
+  size: number;
+}
+
+export type TicketMessageRow = Narrow<
+  TicketMessagesRow,
+  { attachments: TicketMessageAttachment[]; embeds: APIEmbed[] }
+>;
+
+export type TicketMessage = Narrow<
+  TicketMessagesEntity,
+  { attachments: TicketMessageAttachment[]; embeds: APIEmbed[] }
+>;
+
+export type TicketMessageIdentifier = TicketMessagesIdentifier;
+
+export type TicketMessageFilters = TicketMessagesFilters;
+
+export type TicketMessageCreate = Narrow<
+  TicketMessagesCreate,
+  { attachments?: TicketMessageAttachment[]; embeds?: APIEmbed[] }
+>;
+
+/**
+ * Columns that change when a message is edited
+ */
+export type TicketMessageUpdate = Pick<
+  Narrow<
+    TicketMessagesUpdate,
+    { attachments: TicketMessageAttachment[]; embeds: APIEmbed[] }
+  >,
+  "content" | "editedAt" | "attachments" | "embeds"
+>;
+
+export type TicketMessageQueryConfig = Narrow<
+  Omit<TicketMessagesQueryConfig, "Update">,
+  {
+    Entity: TicketMessage;
+    DbEntity: TicketMessageRow;
+    Create: TicketMessageCreate;
+  }
+> & {
+  Update: TicketMessageUpdate;
+  Relations: {
+    ticket: Ticket | null;
+  };
+};
+
+// ============================================================================
+// TICKET PANELS
+// ============================================================================
+
+/**
+ * Panel configuration stored in ticket_panels.panel_config
+ */
+export interface TicketPanelConfig {
+  /** Embed title shown above the buttons */
+  title: string;
+  /** Embed description shown above the buttons */
+  description: string;
+  /** Category keys with one button each, in display order */
+  categories: string[];
+}
+
+export type TicketPanelRow = Narrow<
+  TicketPanelsRow,
+  { panel_config: TicketPanelConfig }
+>;
+
+export type TicketPanel = Narrow<
+  TicketPanelsEntity,
+  { panelConfig: TicketPanelConfig }
+>;
+
+export type TicketPanelIdentifier = TicketPanelsIdentifier;
+
+export type TicketPanelFilters = Narrow<
+  TicketPanelsFilters,
+  { panelConfig: TicketPanelConfig }
+>;
+
+export type TicketPanelCreate = Narrow<
+  TicketPanelsCreate,
+  { panelConfig: TicketPanelConfig }
+>;
+
+/**
+ * Columns that change when a panel is edited, deletedAt is maintained by
+ * delete() and restore()
+ */
+export type TicketPanelUpdate = Pick<
+  Narrow<TicketPanelsUpdate, { panelConfig: TicketPanelConfig }>,
+  "channelId" | "panelConfig" | "updatedAt"
+>;
+
+export type TicketPanelQueryConfig = Narrow<
+  Omit<TicketPanelsQueryConfig, "Update">,
+  {
+    Entity: TicketPanel;
+    DbEntity: TicketPanelRow;
+    Filters: TicketPanelFilters;
+    Create: TicketPanelCreate;
+  }
+> & { Update: TicketPanelUpdate };
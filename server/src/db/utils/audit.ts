@@ -0,0 +1,82 @@
+import type { Pool, PoolClient } from "pg";
+import type { AuditAction, AuditSnapshot } from "../types/audit-log.types";
+
+/**
+ * Table audit entries are written to
+ */
+export const AUDIT_LOG_TABLE = "audit_log";
+
+/**
+ * Audit entry written alongside a change
+ */
+export interface AuditEntryInput {
+  tableName: string;
+  entityId: string;
+  action: AuditAction;
+  actorId: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+/**
+ * Normalizes a column value so equal values compare equal after JSON encoding
+ */
+function normalize(value: unknown): string {
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value);
+}
+
+/**
+ * Computes the columns that differ between two versions of a row
+ *
+ * @param before - Row before the change
+ * @param after - Row after the change
+ * @returns Changed columns with their old and new values, or null if nothing changed
+ *
+ * @example
+ * diffRows({ status: "open", closed_by: null }, { status: "closed", closed_by: "123" })
+ * // { before: { status: "open", closed_by: null }, after: { status: "closed", closed_by: "123" } }
+ */
+export function diffRows(
+  before: AuditSnapshot,
+  after: AuditSnapshot
+): { before: AuditSnapshot; after: AuditSnapshot } | null {
+  const diff = { before: {} as AuditSnapshot, after: {} as AuditSnapshot };
+
+  for (const column of new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ])) {
+    if (normalize(before[column]) !== normalize(after[column])) {
+      diff.before[column] = before[column] ?? null;
+      diff.after[column] = after[column] ?? null;
+    }
+  }
+
+  return Object.keys(diff.after).length > 0 ? diff : null;
+}
+
+/**
+ * Writes an audit entry
+ * Must run on the client of the transaction making the change
+ *
+ * @param db - Transaction client
+ * @param entry - Audit entry to write
+ * @returns Promise resolving when the entry is written
+ */
+export async function recordAuditEntry(
+  db: Pool | PoolClient,
+  entry: AuditEntryInput
+): Promise<void> {
+  await db.query(
+    `INSERT INTO ${AUDIT_LOG_TABLE} (table_name, entity_id, action, actor_id, before, after)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      entry.tableName,
+      entry.entityId,
+      entry.action,
+      entry.actorId,
+      entry.before ? JSON.stringify(entry.before) : null,
+      entry.after ? JSON.stringify(entry.after) : null,
+    ]
+  );
+}
@@ -1,3 +1,5 @@
+import pg from "pg";
+
 /**
  * Base error class for database-related errors
  */
@@ -33,13 +35,48 @@ export class ConstraintViolationError extends DatabaseError {
   constructor(
     message: string,
     public readonly constraint?: string,
-    cause?: unknown
+    cause?: unknown,
+    public readonly columns: string[] = [],
+    public readonly table?: string
   ) {
     super(message, cause);
     this.name = "ConstraintViolationError";
   }
 }
 
+/**
+ * Error thrown when a unique constraint is violated (duplicate value)
+ */
+export class UniqueViolationError extends ConstraintViolationError {
+  constructor(
+    message: string,
+    constraint?: string,
+    cause?: unknown,
+    columns: string[] = [],
+    table?: string
+  ) {
+    super(message, constraint, cause, columns, table);
+    this.name = "UniqueViolationError";
+  }
+}
+
+/**
+ * Error thrown when a foreign key constraint is violated
+ * (referenced row missing, or row still referenced)
+ */
+export class ForeignKeyViolationError extends ConstraintViolationError {
+  constructor(
+    message: string,
+    constraint?: string,
+    cause?: unknown,
+    columns: string[] = [],
+    table?: string
+  ) {
+    super(message, constraint, cause, columns, table);
+    this.name = "ForeignKeyViolationError";
+  }
+}
+
 /**
  * Error thrown when a database query fails
  */
@@ -47,13 +84,124 @@ export class QueryError extends DatabaseError {
   constructor(
     message: string,
     public readonly query?: string,
-    cause?: unknown
+    cause?: unknown,
+    public readonly code?: string
   ) {
     super(message, cause);
     this.name = "QueryError";
   }
 }
 
+/**
+ * Error thrown when a query cannot be built from the given input
+ * (unknown column keys, invalid sort directions). Nothing is sent to the database.
+ */
+export class InvalidQueryError extends DatabaseError {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidQueryError";
+  }
+}
+
+/**
+ * Error thrown when a key is not a known column of the query class' table
+ */
+export class InvalidColumnError extends InvalidQueryError {
+  constructor(public readonly table: string, public readonly key: string) {
+    super(`Unknown column key for ${table}: ${JSON.stringify(key)}`);
+    this.name = "InvalidColumnError";
+  }
+}
+
+/**
+ * PostgreSQL SQLSTATE codes of integrity constraint violations
+ */
+const PG_ERROR_CODES = {
+  NOT_NULL_VIOLATION: "23502",
+  FOREIGN_KEY_VIOLATION: "23503",
+  UNIQUE_VIOLATION: "23505",
+  CHECK_VIOLATION: "23514",
+} as const;
+
+/**
+ * Extracts the column names involved in a constraint violation
+ *
+ * Not-null violations report the column directly, unique and foreign key
+ * violations only mention them in the detail, e.g.
+ * "Key (ticket_id, user_id)=(1, 123) already exists."
+ */
+function getViolationColumns(error: pg.DatabaseError): string[] {
+  if (error.column) {
+    return [error.column];
+  }
+
+  const match = error.detail?.match(/^Key \((.+?)\)=/);
+  return match ? match[1].split(",").map((column) => column.trim()) : [];
+}
+
+/**
+ * Translates an error thrown by pg into the DatabaseError hierarchy
+ *
+ * - unique violations become UniqueViolationError
+ * - foreign key violations become ForeignKeyViolationError
+ * - not-null and check violations become ConstraintViolationError
+ * - any other failure becomes QueryError carrying the SQL text
+ *
+ * Errors that already are DatabaseErrors (e.g. NotFoundError) are returned as is.
+ *
+ * @param error - Error thrown while running a query
+ * @param query - SQL text of the failed query
+ * @returns Translated error
+ */
+export function translateDatabaseError(
+  error: unknown,
+  query?: string
+): DatabaseError {
+  if (error instanceof DatabaseError) {
+    return error;
+  }
+
+  if (!(error instanceof pg.DatabaseError)) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new QueryError(message, query, error);
+  }
+
+  const message = error.detail
+    ? `${error.message}: ${error.detail}`
+    : error.message;
+  const columns = getViolationColumns(error);
+
+  switch (error.code) {
+    case PG_ERROR_CODES.UNIQUE_VIOLATION:
+      return new UniqueViolationError(
+        message,
+        error.constraint,
+        error,
+        columns,
+        error.table
+      );
+    case PG_ERROR_CODES.FOREIGN_KEY_VIOLATION:
+      return new ForeignKeyViolationError(
+        message,
+        error.constraint,
+        error,
+        columns,
+        error.table
+      );
+    case PG_ERROR_CODES.NOT_NULL_VIOLATION:
+    case PG_ERROR_CODES.CHECK_VIOLATION:
+      return new ConstraintViolationError(
+        message,
+        error.constraint,
+        error,
+        columns,
+        error.table
+      );
+    default:
+      return new QueryError(message, query, error, error.code);
+  }
+}
+
 /**
  * Formats criteria object into readable string for error messages
  */
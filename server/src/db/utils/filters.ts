@@ -0,0 +1,229 @@
+/**
+ * Comparison operators supported for a single filter column
+ */
+export interface FilterOperators<T> {
+  eq?: T;
+  ne?: T;
+  gt?: T;
+  gte?: T;
+  lt?: T;
+  lte?: T;
+  in?: T[];
+  notIn?: T[];
+  like?: string;
+  ilike?: string;
+  /** true for IS NULL, false for IS NOT NULL */
+  isNull?: boolean;
+  /** Inclusive range [from, to] */
+  between?: [T, T];
+}
+
+/**
+ * Filter value for a column: either a plain value (equality) or operators
+ */
+export type FilterValue<T> = T | FilterOperators<T>;
+
+/**
+ * Filter criteria typed against a query class' Filters type
+ *
+ * Column conditions at the same level are joined by AND.
+ * `$or`, `$and` and `$not` allow nesting groups.
+ *
+ * @example
+ * {
+ *   createdAt: { gte: weekAgo },
+ *   $or: [{ status: "open" }, { status: "closed", archived: false }],
+ *   $not: { creatorId: { in: blockedIds } },
+ * }
+ */
+export type WhereFilter<TFilters> = {
+  [K in keyof TFilters]?: FilterValue<TFilters[K]> | null;
+} & {
+  $or?: WhereFilter<TFilters>[];
+  $and?: WhereFilter<TFilters>[];
+  $not?: WhereFilter<TFilters>;
+};
+
+/**
+ * Filter accepted by query methods: a filter object or a fluent builder
+ */
+export type QueryFilter<TFilters> =
+  | WhereFilter<TFilters>
+  | FilterBuilder<TFilters>;
+
+/**
+ * Names of all supported filter operators
+ */
+export const FILTER_OPERATORS = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "notIn",
+  "like",
+  "ilike",
+  "isNull",
+  "between",
+] as const;
+
+const OPERATOR_SET = new Set<string>(FILTER_OPERATORS);
+
+/**
+ * Checks whether a filter value is an operator object rather than a plain value
+ *
+ * @param value - Filter value
+ * @returns True if value is a non-empty plain object whose keys are all operators
+ */
+export function isFilterOperators(
+  value: unknown
+): value is FilterOperators<unknown> {
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    Array.isArray(value) ||
+    value instanceof Date ||
+    Buffer.isBuffer(value)
+  ) {
+    return false;
+  }
+
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => OPERATOR_SET.has(key));
+}
+
+/**
+ * Fluent builder producing a WhereFilter
+ *
+ * Conditions added to a builder are joined by AND.
+ *
+ * @example
+ * const filter = where<TicketFilters>()
+ *   .gte("createdAt", weekAgo)
+ *   .or(
+ *     (b) => b.eq("status", "open"),
+ *     (b) => b.eq("status", "closed").eq("archived", false)
+ *   );
+ *
+ * await ticketQueries.findAll(filter);
+ */
+export class FilterBuilder<TFilters> {
+  private conditions: WhereFilter<TFilters>[] = [];
+
+  private add<K extends keyof TFilters>(
+    key: K,
+    operators: FilterOperators<TFilters[K]>
+  ): this {
+    this.conditions.push({ [key]: operators } as WhereFilter<TFilters>);
+    return this;
+  }
+
+  public eq<K extends keyof TFilters>(key: K, value: TFilters[K]): this {
+    return this.add(key, { eq: value });
+  }
+
+  public ne<K extends keyof TFilters>(key: K, value: TFilters[K]): this {
+    return this.add(key, { ne: value });
+  }
+
+  public gt<K extends keyof TFilters>(key: K, value: TFilters[K]): this {
+    return this.add(key, { gt: value });
+  }
+
+  public gte<K extends keyof TFilters>(key: K, value: TFilters[K]): this {
+    return this.add(key, { gte: value });
+  }
+
+  public lt<K extends keyof TFilters>(key: K, value: TFilters[K]): this {
+    return this.add(key, { lt: value });
+  }
+
+  public lte<K extends keyof TFilters>(key: K, value: TFilters[K]): this {
+    return this.add(key, { lte: value });
+  }
+
+  public in<K extends keyof TFilters>(key: K, values: TFilters[K][]): this {
+    return this.add(key, { in: values });
+  }
+
+  public notIn<K extends keyof TFilters>(key: K, values: TFilters[K][]): this {
+    return this.add(key, { notIn: values });
+  }
+
+  public like<K extends keyof TFilters>(key: K, pattern: string): this {
+    return this.add(key, { like: pattern });
+  }
+
+  public ilike<K extends keyof TFilters>(key: K, pattern: string): this {
+    return this.add(key, { ilike: pattern });
+  }
+
+  public isNull<K extends keyof TFilters>(key: K): this {
+    return this.add(key, { isNull: true });
+  }
+
+  public isNotNull<K extends keyof TFilters>(key: K): this {
+    return this.add(key, { isNull: false });
+  }
+
+  public between<K extends keyof TFilters>(
+    key: K,
+    from: TFilters[K],
+    to: TFilters[K]
+  ): this {
+    return this.add(key, { between: [from, to] });
+  }
+
+  /**
+   * Adds a group of alternatives joined by OR
+   * Each callback receives a fresh builder whose conditions are joined by AND
+   */
+  public or(
+    ...groups: Array<
+      (builder: FilterBuilder<TFilters>) => FilterBuilder<TFilters>
+    >
+  ): this {
+    this.conditions.push({
+      $or: groups.map((group) => group(new FilterBuilder<TFilters>()).build()),
+    } as WhereFilter<TFilters>);
+    return this;
+  }
+
+  /**
+   * Adds a negated group
+   */
+  public not(
+    group: (builder: FilterBuilder<TFilters>) => FilterBuilder<TFilters>
+  ): this {
+    this.conditions.push({
+      $not: group(new FilterBuilder<TFilters>()).build(),
+    } as WhereFilter<TFilters>);
+    return this;
+  }
+
+  /**
+   * Adds an existing filter object to the builder
+   */
+  public merge(filter: WhereFilter<TFilters>): this {
+    this.conditions.push(filter);
+    return this;
+  }
+
+  /**
+   * Builds the filter object, empty if no conditions were added
+   */
+  public build(): WhereFilter<TFilters> {
+    return (
+      this.conditions.length > 0 ? { $and: [...this.conditions] } : {}
+    ) as WhereFilter<TFilters>;
+  }
+}
+
+/**
+ * Creates a new fluent filter builder
+ */
+export function where<TFilters>(): FilterBuilder<TFilters> {
+  return new FilterBuilder<TFilters>();
+}
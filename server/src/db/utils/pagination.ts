@@ -0,0 +1,60 @@
+import { InvalidQueryError } from "./errors";
+
+/**
+ * Page of results returned by keyset pagination
+ */
+export interface Page<T> {
+  items: T[];
+  /** Cursor of the next page, null if this is the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Options for keyset pagination
+ */
+export interface PaginateOptions<TFilter> {
+  filters?: TFilter;
+  /** Entity key to order by (defaults to the primary key) */
+  orderBy?: string;
+  orderDirection?: "ASC" | "DESC";
+  /** Page size (default 25) */
+  limit?: number;
+  /** Cursor returned by the previous page, omit for the first page */
+  cursor?: string | null;
+}
+
+/**
+ * Encodes the sort key of the last row of a page into an opaque cursor
+ *
+ * The order column value is the text PostgreSQL renders for it, so
+ * timestamps keep their microseconds. A JavaScript Date would cut them to
+ * milliseconds and repeat or skip rows at page boundaries.
+ *
+ * @param values - Order column value as text and primary key value
+ * @returns URL-safe cursor string
+ */
+export function encodeCursor(values: [unknown, unknown]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor created by encodeCursor()
+ *
+ * @param cursor - Cursor string
+ * @returns Order column value and primary key value
+ * @throws InvalidQueryError if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): [unknown, unknown] {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+
+    if (Array.isArray(values) && values.length === 2) {
+      return values as [unknown, unknown];
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new InvalidQueryError(`Invalid pagination cursor: ${cursor}`);
+}
@@ -29,3 +29,14 @@ export function getFirstCriteria<T extends Record<string, any>>(
   const key = Object.keys(criteria)[0] as keyof T;
   return { key, value: criteria[key] };
 }
+
+/**
+ * Quotes a table or column name for use in SQL
+ * Embedded double quotes are doubled, so the name can never end the identifier
+ *
+ * @example
+ * quoteIdentifier("ticket_id"); // "ticket_id" (with the quotes)
+ */
+export function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
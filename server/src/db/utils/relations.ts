@@ -0,0 +1,49 @@
+import type { BaseQueries } from "../queries/base.queries";
+
+/**
+ * Relation between two query classes
+ *
+ * - hasMany: one-to-many, the related rows reference this entity
+ *   (e.g. a ticket has many participants)
+ * - belongsTo: many-to-one, this entity references the related row
+ *   (e.g. a participant belongs to a ticket)
+ */
+export interface RelationDefinition {
+  type: "hasMany" | "belongsTo";
+  /** Related query class, resolved lazily to allow circular relations */
+  queries: () => BaseQueries<any>;
+  /** Entity key on this entity */
+  localKey: string;
+  /** Entity key on the related entity */
+  foreignKey: string;
+  /** Entity key hasMany relations are sorted by */
+  orderBy?: string;
+  orderDirection?: "ASC" | "DESC";
+}
+
+/**
+ * Names of the relations declared in a query config
+ */
+export type RelationName<TConfig extends { Relations?: Record<string, any> }> =
+  keyof NonNullable<TConfig["Relations"]> & string;
+
+/**
+ * Relation definitions of a query class, one per declared relation
+ */
+export type RelationDefinitions<
+  TConfig extends { Relations?: Record<string, any> }
+> = {
+  [K in RelationName<TConfig>]: RelationDefinition;
+};
+
+/**
+ * Entity with the requested relations loaded
+ *
+ * @example
+ * WithRelations<TicketQueryConfig, "participants">
+ * // Ticket & { participants: TicketParticipant[] }
+ */
+export type WithRelations<
+  TConfig extends { Entity: any; Relations?: Record<string, any> },
+  K extends RelationName<TConfig>
+> = TConfig["Entity"] & Pick<NonNullable<TConfig["Relations"]>, K>;
@@ -0,0 +1,172 @@
+import type { Pool, PoolClient, QueryResultRow } from "pg";
+import db from "@/db";
+import logger from "@/logger";
+import type { BaseQueries } from "../queries/base.queries";
+
+/**
+ * SQLSTATE raised when a serializable transaction cannot be committed
+ */
+const SERIALIZATION_FAILURE = "40001";
+
+/**
+ * Transaction isolation levels supported by PostgreSQL
+ */
+export type IsolationLevel =
+  | "READ COMMITTED"
+  | "REPEATABLE READ"
+  | "SERIALIZABLE";
+
+/**
+ * Options for transaction()
+ */
+export interface TransactionOptions {
+  /** Isolation level of the transaction (defaults to the server default) */
+  isolationLevel?: IsolationLevel;
+  /** Number of times to retry on serialization failures (default 0) */
+  retries?: number;
+  /** Base delay between retries in ms, doubled on every attempt (default 50) */
+  retryDelayMs?: number;
+  /** Pool to take the client from (defaults to the application pool) */
+  pool?: Pool;
+}
+
+/**
+ * Handle passed to transaction callbacks
+ *
+ * Query classes bound through bind() run every query on the transaction
+ * client. Nested transaction() calls create savepoints, so a failing nested
+ * block only rolls back its own changes.
+ */
+export class Transaction {
+  constructor(
+    public readonly client: PoolClient,
+    private readonly depth: number = 0
+  ) {}
+
+  /**
+   * Binds a query class to this transaction
+   *
+   * @example
+   * await transaction(async (tx) => {
+   *   const ticket = await tx.bind(ticketQueries).createAndReturn(data);
+   *   await tx.bind(ticketParticipantQueries).create({ ticketId: ticket.ticketId, ... });
+   * });
+   */
+  public bind<T extends BaseQueries<any>>(queries: T): T {
+    return queries.withClient(this.client);
+  }
+
+  /**
+   * Runs a raw query on the transaction client
+   */
+  public async query<T extends QueryResultRow = any>(
+    query: string,
+    params?: any[]
+  ): Promise<T[]> {
+    const result = await this.client.query<T>(query, params);
+    return result.rows;
+  }
+
+  /**
+   * Runs a callback inside a savepoint
+   * The savepoint is released on success and rolled back on error, the error is rethrown
+   *
+   * @param fn - Callback receiving the nested transaction
+   * @returns Promise resolving to the callback result
+   */
+  public async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+    const savepoint = `sp_${this.depth + 1}`;
+
+    await this.client.query(`SAVEPOINT ${savepoint}`);
+
+    try {
+      const result = await fn(new Transaction(this.client, this.depth + 1));
+      await this.client.query(`RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      await this.client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Checks whether an error is a PostgreSQL serialization failure
+ */
+function isSerializationFailure(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: string }).code === SERIALIZATION_FAILURE
+  );
+}
+
+/**
+ * Runs a callback inside a database transaction
+ *
+ * Process:
+ * 1. Takes a client from the pool and runs BEGIN
+ * 2. Runs the callback with a Transaction handle
+ * 3. Commits if the callback resolves, rolls back if it throws
+ * 4. Always releases the client
+ *
+ * Serialization failures (SQLSTATE 40001) are retried up to `retries` times
+ * with exponential backoff, running the whole callback again.
+ *
+ * @param fn - Callback receiving the transaction
+ * @param options - Transaction options
+ * @returns Promise resolving to the callback result
+ *
+ * @example
+ * const ticket = await transaction(
+ *   async (tx) => {
+ *     const tickets = tx.bind(ticketQueries);
+ *     ...
+ *   },
+ *   { isolationLevel: "SERIALIZABLE", retries: 3 }
+ * );
+ */
+export async function transaction<T>(
+  fn: (tx: Transaction) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const { isolationLevel, retries = 0, retryDelayMs = 50, pool = db } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    const client = await pool.connect();
+    let releaseError: Error | undefined;
+
+    try {
+      await client.query(
+        isolationLevel ? `BEGIN ISOLATION LEVEL ${isolationLevel}` : "BEGIN"
+      );
+
+      const result = await fn(new Transaction(client));
+
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK").catch((rollbackError) => {
+        // A client that cannot roll back is broken, discard it instead of reusing it
+        releaseError = rollbackError;
+        logger.error("Failed to roll back transaction:", rollbackError);
+      });
+
+      if (!isSerializationFailure(error) || attempt >= retries) {
+        throw error;
+      }
+
+      logger.warn(
+        `Transaction serialization failure, retrying (${
+          attempt + 1
+        }/${retries})`
+      );
+    } finally {
+      client.release(releaseError);
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, retryDelayMs * 2 ** attempt)
+    );
+  }
+}
@@ -1,13 +1,42 @@
+import config from "@/config";
 import {
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
   Client,
   Collection,
   Interaction,
+  InteractionReplyOptions,
   MessageFlags,
 } from "discord.js";
-import { CommandModule } from "../loaders/command-loader";
-import { cooldownManager } from "@/discord/utils/cooldown/cooldown-manager";
+import { CommandCooldown, CommandModule } from "../loaders/command-loader";
+import {
+  ComponentInteraction,
+  ComponentModule,
+} from "../loaders/component-loader";
+import {
+  ContextMenuInteraction,
+  ContextMenuModule,
+} from "../loaders/context-menu-loader";
+import {
+  cooldownManager,
+  CooldownReservation,
+  getContextMenuCooldownName,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import { CustomId, type CustomIdPayload } from "@/discord/utils/custom-id";
 import { EmbedPresets } from "@/discord/embeds";
+import {
+  ForeignKeyViolationError,
+  InvalidQueryError,
+  UniqueViolationError,
+} from "@/db/utils/errors";
+
+/**
+ * Interactions that can be put on cooldown
+ */
+type CooldownInteraction =
+  | ChatInputCommandInteraction
+  | ContextMenuInteraction
+  | ComponentInteraction;
 
 /**
  * Formats a cooldown duration in seconds into a human-readable string
@@ -38,32 +67,109 @@ function formatCooldown(seconds: number): string {
 }
 
 /**
- * Checks if a user can bypass the cooldown for a command
+ * Builds the ephemeral reply sent when handling an interaction fails
+ *
+ * Constraint violations and invalid queries get a friendly embed, anything
+ * else a generic message
+ *
+ * @param error - The error thrown by the handler
+ * @param fallback - Message used for unexpected errors
+ * @returns Reply options for the failed interaction
+ */
+function buildErrorReply(
+  error: unknown,
+  fallback: string
+): InteractionReplyOptions {
+  if (error instanceof UniqueViolationError) {
+    return {
+      embeds: [
+        EmbedPresets.error(
+          "Already Exists",
+          "That entry already exists. Nothing was changed."
+        ).build(),
+      ],
+      flags: MessageFlags.Ephemeral,
+    };
+  }
+
+  if (error instanceof InvalidQueryError) {
+    return {
+      embeds: [
+        EmbedPresets.error(
+          "Invalid Request",
+          "This request could not be processed. Run the command again."
+        ).build(),
+      ],
+      flags: MessageFlags.Ephemeral,
+    };
+  }
+
+  if (error instanceof ForeignKeyViolationError) {
+    return {
+      embeds: [
+        EmbedPresets.error(
+          "Related Entry Missing",
+          "This action refers to something that no longer exists, or is still in use."
+        ).build(),
+      ],
+      flags: MessageFlags.Ephemeral,
+    };
+  }
+
+  return { content: fallback, flags: MessageFlags.Ephemeral };
+}
+
+/**
+ * Answers an interaction without failing if the reply cannot be sent
+ *
+ * Follows up if the interaction was already answered or deferred. Failures
+ * (e.g. the interaction token expired) are logged and swallowed, so they do
+ * not hide the error that is being reported.
+ *
+ * @param interaction - The command or component interaction
+ * @param options - Reply options
+ * @param name - Name of the command or component, used in the log message
+ * @returns Promise that resolves once the reply was sent or failed
+ */
+async function replySafely(
+  interaction: CooldownInteraction,
+  options: InteractionReplyOptions,
+  name: string
+): Promise<void> {
+  const replyMethod =
+    interaction.replied || interaction.deferred
+      ? interaction.followUp
+      : interaction.reply;
+
+  await replyMethod
+    .call(interaction, options)
+    .catch((error) => logger.error(`Failed to answer ${name}:`, error));
+}
+
+/**
+ * Checks if a user can bypass the cooldown of a command or component
  *
  * Users can bypass cooldowns if:
- * - The command has no cooldown configured
- * - Their user ID is in the command's bypassUsers list
- * - They have a role that's in the command's bypassRoles list
+ * - Their user ID is in the cooldown's bypassUsers list
+ * - They have a role that's in the cooldown's bypassRoles list
  *
- * @param interaction - The chat input interaction
- * @param command - The command module being executed
+ * @param interaction - The command or component interaction
+ * @param cooldown - The cooldown configuration
  * @returns True if the user can bypass the cooldown, false otherwise
  */
 function canBypassCooldown(
-  interaction: ChatInputCommandInteraction,
-  command: CommandModule
+  interaction: CooldownInteraction,
+  cooldown: CommandCooldown
 ): boolean {
-  if (!command.cooldown) return true;
-
-  if (command.cooldown.bypassUsers?.includes(interaction.user.id)) {
+  if (cooldown.bypassUsers?.includes(interaction.user.id)) {
     return true;
   }
 
-  if (interaction.guild && command.cooldown.bypassRoles) {
+  if (interaction.guild && cooldown.bypassRoles) {
     const member = interaction.member;
     if (member && "roles" in member) {
       const memberRoles = member.roles as { cache: Collection<string, any> };
-      const hasRole = command.cooldown.bypassRoles.some((roleId) =>
+      const hasRole = cooldown.bypassRoles.some((roleId) =>
         memberRoles.cache.has(roleId)
       );
       if (hasRole) return true;
@@ -74,14 +180,154 @@ function canBypassCooldown(
 }
 
 /**
- * Handles execution of slash commands with cooldown management
+ * Checks the cooldown of a command or component and reserves a charge
+ *
+ * The check and the reservation are one atomic step, so parallel
+ * interactions (also on other processes) cannot both get through. Replies
+ * with an ephemeral cooldown embed if no charge is available.
+ *
+ * @param interaction - The command or component interaction
+ * @param name - Name the cooldown is kept under
+ * @param cooldown - The cooldown configuration, if any
+ * @param kind - What is on cooldown, shown in the reply
+ * @returns Reservation to commit or release, blocked if the interaction was
+ * answered with the cooldown embed, or null if no cooldown applies
+ */
+async function reserveCooldown(
+  interaction: CooldownInteraction,
+  name: string,
+  cooldown: CommandCooldown | undefined,
+  kind: "Command" | "Action"
+): Promise<CooldownReservation | null> {
+  if (!cooldown || canBypassCooldown(interaction, cooldown)) return null;
+
+  const reservation = await cooldownManager.reserve(name, cooldown, {
+    userId: interaction.user.id,
+    channelId: interaction.channelId ?? interaction.user.id,
+    guildId: interaction.guildId,
+  });
+  const cooldownStatus = reservation.blocked;
+
+  if (cooldownStatus === null) return reservation;
+
+  const cooldownRemaining = cooldownStatus.remaining!;
+  const cooldownMessage =
+    cooldown.message ||
+    `This ${kind.toLowerCase()} is on cooldown. Please wait ${formatCooldown(
+      cooldownRemaining
+    )} before using it again.`;
+
+  const cooldownEmbed = EmbedPresets.error(
+    `${kind} on Cooldown`,
+    cooldownMessage
+  ).field("Time Remaining", formatCooldown(cooldownRemaining), true);
+
+  if (cooldownStatus.maxCharges > 1) {
+    cooldownEmbed
+      .field(
+        "Charges",
+        `${cooldownStatus.charges}/${cooldownStatus.maxCharges}`,
+        true
+      )
+      .field(
+        "Next Charge",
+        formatCooldown(cooldownStatus.nextCharge ?? 0),
+        true
+      );
+  }
+
+  await replySafely(
+    interaction,
+    { embeds: [cooldownEmbed.build()], flags: MessageFlags.Ephemeral },
+    name
+  );
+
+  logger.debug(
+    `${
+      interaction.user.tag
+    } tried to use ${name} but it's on cooldown (${cooldownRemaining.toFixed(
+      1
+    )}s remaining)`
+  );
+  return reservation;
+}
+
+/**
+ * Runs a command or component handler with cooldown and error handling
  *
  * Process:
- * 1. Retrieves the command handler
- * 2. Checks if the command is on cooldown (unless user can bypass)
- * 3. Executes the command if not on cooldown
- * 4. Sets cooldown after successful execution
- * 5. Handles errors with ephemeral error messages
+ * 1. Checks the cooldown and reserves a charge (unless user can bypass),
+ *    refusing the interaction if the cooldown store fails
+ * 2. Runs the handler if not on cooldown
+ * 3. Commits the charge on success, releases it on error (keeping the
+ *    configured failure penalty)
+ * 4. Handles errors with ephemeral error messages
+ *
+ * @param interaction - The command or component interaction
+ * @param name - Name the cooldown is kept under and errors are logged with
+ * @param cooldown - The cooldown configuration, if any
+ * @param kind - What is being run, shown in cooldown and error replies
+ * @param run - Runs the handler
+ * @returns Promise that resolves when handling is complete
+ */
+async function runWithCooldown(
+  interaction: CooldownInteraction,
+  name: string,
+  cooldown: CommandCooldown | undefined,
+  kind: "Command" | "Action",
+  run: () => Promise<void>
+): Promise<void> {
+  let reservation: CooldownReservation | null;
+
+  try {
+    reservation = await reserveCooldown(interaction, name, cooldown, kind);
+  } catch (error) {
+    // The cooldown cannot be enforced, so the handler is not run
+    logger.error(`Failed to check the cooldown of ${name}:`, error);
+
+    await replySafely(
+      interaction,
+      {
+        embeds: [
+          EmbedPresets.error(
+            "Cooldowns Unavailable",
+            `This ${kind.toLowerCase()} cannot be used right now. Please try again later.`
+          ).build(),
+        ],
+        flags: MessageFlags.Ephemeral,
+      },
+      name
+    );
+    return;
+  }
+
+  if (reservation?.blocked) return;
+
+  try {
+    await run();
+    reservation?.commit();
+  } catch (error) {
+    logger.error(`Error running ${name}:`, error);
+
+    await reservation
+      ?.release()
+      .catch((releaseError) =>
+        logger.error(`Failed to release the cooldown of ${name}:`, releaseError)
+      );
+
+    await replySafely(
+      interaction,
+      buildErrorReply(error, `❌ ${kind} failed`),
+      name
+    );
+  }
+}
+
+/**
+ * Handles execution of slash commands
+ *
+ * Retrieves the command handler and runs it with cooldown and error handling,
+ * see runWithCooldown()
  *
  * @param interaction - The chat input command interaction
  * @param commandHandlers - Collection of registered command handlers
@@ -102,69 +348,237 @@ async function handleChatCommands(
     `${interaction.user.tag} (${interaction.user.id}) ran /${interaction.commandName}`
   );
 
-  // Check cooldown
-  if (command.cooldown && !canBypassCooldown(interaction, command)) {
-    const cooldownRemaining = cooldownManager.check(
-      interaction.commandName,
-      command.cooldown,
-      {
-        userId: interaction.user.id,
-        channelId: interaction.channelId,
-        guildId: interaction.guildId,
-      }
-    );
+  await runWithCooldown(
+    interaction,
+    interaction.commandName,
+    command.cooldown,
+    "Command",
+    () => command.execute(interaction)
+  );
+}
 
-    if (cooldownRemaining !== null) {
-      const cooldownMessage =
-        command.cooldown.message ||
-        `This command is on cooldown. Please wait ${formatCooldown(
-          cooldownRemaining
-        )} before using it again.`;
+/**
+ * Handles execution of user and message context menu commands
+ *
+ * Same as slash commands: cooldowns, bypasses and errors are handled by
+ * runWithCooldown(). Cooldowns are kept under the `ctx:` prefixed name, see
+ * getContextMenuCooldownName()
+ *
+ * @param interaction - The context menu command interaction
+ * @param contextMenuHandlers - Collection of registered context menu handlers
+ * @returns Promise that resolves when command handling is complete
+ */
+async function handleContextMenuCommands(
+  interaction: ContextMenuInteraction,
+  contextMenuHandlers: Collection<string, ContextMenuModule>
+): Promise<void> {
+  const command = contextMenuHandlers.get(interaction.commandName);
 
-      const cooldownEmbed = EmbedPresets.error(
-        "Command on Cooldown",
-        cooldownMessage
-      )
-        .field("Time Remaining", formatCooldown(cooldownRemaining), true)
-        .build();
+  if (!command) {
+    logger.warn(`Unknown context menu received: ${interaction.commandName}`);
+    return;
+  }
 
-      await interaction.reply({
-        embeds: [cooldownEmbed],
-        flags: MessageFlags.Ephemeral,
-      });
+  logger.info(
+    `${interaction.user.tag} (${interaction.user.id}) ran context menu "${interaction.commandName}"`
+  );
 
-      logger.debug(
-        `${interaction.user.tag} tried to use /${
-          interaction.commandName
-        } but it's on cooldown (${cooldownRemaining.toFixed(1)}s remaining)`
-      );
-      return;
-    }
+  await runWithCooldown(
+    interaction,
+    getContextMenuCooldownName(interaction.commandName),
+    command.cooldown,
+    "Command",
+    () => command.execute(interaction)
+  );
+}
+
+/**
+ * Gets the handler of a component module matching the interaction type
+ *
+ * @returns Function running the handler with the interaction, or null if the
+ * module has no handler for the interaction type
+ */
+function getComponentHandler(
+  component: ComponentModule,
+  interaction: ComponentInteraction,
+  payload: CustomIdPayload
+): (() => Promise<void>) | null {
+  if (interaction.isButton()) {
+    const { button } = component;
+    return button ? () => button(interaction, payload) : null;
+  }
+
+  if (interaction.isAnySelectMenu()) {
+    const { selectMenu } = component;
+    return selectMenu ? () => selectMenu(interaction, payload) : null;
+  }
+
+  const { modalSubmit } = component;
+  return modalSubmit ? () => modalSubmit(interaction, payload) : null;
+}
+
+/**
+ * Handles buttons, select menus and modals by routing them on the prefix of
+ * their custom ID
+ *
+ * Components get the same cooldown and error handling as slash commands,
+ * cooldowns are kept under the custom ID prefix.
+ *
+ * @param interaction - The component or modal interaction
+ * @param componentHandlers - Collection of component handlers keyed by prefix
+ * @returns Promise that resolves when component handling is complete
+ */
+async function handleComponents(
+  interaction: ComponentInteraction,
+  componentHandlers: Collection<string, ComponentModule>
+): Promise<void> {
+  const component = componentHandlers.get(
+    CustomId.getPrefix(interaction.customId)
+  );
+  const payload = component?.customId.decode(interaction.customId);
+  const handler =
+    component && payload
+      ? getComponentHandler(component, interaction, payload)
+      : null;
+
+  if (!component || !handler) {
+    logger.warn(`Unknown component received: ${interaction.customId}`);
+    return;
+  }
+
+  await runWithCooldown(
+    interaction,
+    component.customId.prefix,
+    component.cooldown,
+    "Action",
+    handler
+  );
+}
+
+/**
+ * Time of the last handled autocomplete request per user ID
+ */
+const lastAutocomplete = new Map<string, number>();
+
+/**
+ * Autocomplete request per user ID waiting for the throttle time to pass
+ */
+const pendingAutocomplete = new Map<string, AutocompleteInteraction>();
+
+/**
+ * Answers an autocomplete request with no suggestions, unless it already is
+ *
+ * @param interaction - The autocomplete interaction
+ */
+async function respondEmpty(
+  interaction: AutocompleteInteraction
+): Promise<void> {
+  if (interaction.responded) return;
+
+  await interaction
+    .respond([])
+    .catch((error) => logger.debug("Failed to answer autocomplete:", error));
+}
+
+/**
+ * Waits until a user may send another autocomplete request
+ *
+ * Requests within throttleMs of the last handled one wait for the time to
+ * pass, and only the latest of them is handled then (trailing edge), so the
+ * suggestions match what the user typed last. The request is recorded as
+ * handled if it gets its turn.
+ *
+ * @param interaction - The autocomplete interaction
+ * @returns False if a newer request of the user took its place
+ */
+async function waitForAutocompleteTurn(
+  interaction: AutocompleteInteraction
+): Promise<boolean> {
+  const userId = interaction.user.id;
+  const { throttleMs } = config.discord.autocomplete;
+  const wait = (lastAutocomplete.get(userId) ?? 0) + throttleMs - Date.now();
+
+  if (wait > 0) {
+    pendingAutocomplete.set(userId, interaction);
+    await new Promise((resolve) => setTimeout(resolve, wait));
+
+    if (pendingAutocomplete.get(userId) !== interaction) return false;
+    pendingAutocomplete.delete(userId);
+  }
+
+  const now = Date.now();
+  lastAutocomplete.set(userId, now);
+  setTimeout(() => {
+    if (lastAutocomplete.get(userId) === now) lastAutocomplete.delete(userId);
+  }, throttleMs).unref();
+
+  return true;
+}
+
+/**
+ * Handles autocomplete requests of slash command options
+ *
+ * Routes to the autocomplete export of the command module. Requests are
+ * answered with no suggestions instead of failing when:
+ * - The command has no autocomplete handler
+ * - The user sent a newer request within throttleMs
+ * - The handler takes longer than timeoutMs or throws
+ *
+ * @param interaction - The autocomplete interaction
+ * @param commandHandlers - Collection of registered command handlers
+ * @returns Promise that resolves when autocomplete handling is complete
+ */
+async function handleAutocomplete(
+  interaction: AutocompleteInteraction,
+  commandHandlers: Collection<string, CommandModule>
+): Promise<void> {
+  const autocomplete = commandHandlers.get(
+    interaction.commandName
+  )?.autocomplete;
+
+  if (!autocomplete) {
+    logger.warn(`Unhandled autocomplete for /${interaction.commandName}`);
+    await respondEmpty(interaction);
+    return;
   }
 
+  if (!(await waitForAutocompleteTurn(interaction))) {
+    await respondEmpty(interaction);
+    return;
+  }
+
+  const { timeoutMs } = config.discord.autocomplete;
+  // Handlers that throw before returning a promise are caught below as well
+  const handled = Promise.resolve()
+    .then(() => autocomplete(interaction))
+    .then(() => "done" as const);
+  let timer: NodeJS.Timeout | undefined;
+
+  const timedOut = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), timeoutMs);
+  });
+
   try {
-    await command.execute(interaction);
-
-    // Set cooldown after successful execution
-    if (command.cooldown && !canBypassCooldown(interaction, command)) {
-      cooldownManager.set(interaction.commandName, command.cooldown, {
-        userId: interaction.user.id,
-        channelId: interaction.channelId,
-        guildId: interaction.guildId,
-      });
+    if ((await Promise.race([handled, timedOut])) === "timeout") {
+      logger.warn(
+        `Autocomplete for /${interaction.commandName} timed out after ${timeoutMs}ms`
+      );
+      handled.catch((error) =>
+        logger.debug(
+          `Autocomplete for /${interaction.commandName} failed after timing out:`,
+          error
+        )
+      );
+      await respondEmpty(interaction);
     }
   } catch (error) {
-    logger.error(`Error executing command ${interaction.commandName}:`, error);
-
-    const replyMethod =
-      interaction.replied || interaction.deferred
-        ? interaction.followUp
-        : interaction.reply;
-
-    await replyMethod.call(interaction, {
-      content: "❌ Command failed",
-      flags: MessageFlags.Ephemeral,
-    });
+    logger.error(
+      `Error handling autocomplete for /${interaction.commandName}:`,
+      error
+    );
+    await respondEmpty(interaction);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
@@ -172,19 +586,39 @@ async function handleChatCommands(
  * Registers the interaction event handler for the Discord client
  *
  * Sets up a listener for the 'interactionCreate' event that routes
- * chat input commands to the appropriate handler
+ * chat input commands, context menu commands, autocomplete requests,
+ * components and modals to the appropriate handler
  *
  * @param discordClient - The Discord.js client instance
  * @param commandHandlers - Collection of slash command handlers keyed by command name
+ * @param componentHandlers - Collection of component handlers keyed by custom ID prefix
+ * @param contextMenuHandlers - Collection of context menu handlers keyed by command name
  */
 export function registerInteractionHandler(
   discordClient: Client,
-  commandHandlers: Collection<string, CommandModule>
+  commandHandlers: Collection<string, CommandModule>,
+  componentHandlers: Collection<string, ComponentModule>,
+  contextMenuHandlers: Collection<string, ContextMenuModule>
 ): void {
   discordClient.on("interactionCreate", async (interaction: Interaction) => {
     if (interaction.isChatInputCommand()) {
       await handleChatCommands(interaction, commandHandlers);
       return;
     }
+
+    if (interaction.isContextMenuCommand()) {
+      await handleContextMenuCommands(interaction, contextMenuHandlers);
+      return;
+    }
+
+    if (interaction.isAutocomplete()) {
+      await handleAutocomplete(interaction, commandHandlers);
+      return;
+    }
+
+    if (interaction.isMessageComponent() || interaction.isModalSubmit()) {
+      await handleComponents(interaction, componentHandlers);
+      return;
+    }
   });
 }
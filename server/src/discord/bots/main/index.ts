@@ -1,7 +1,11 @@
 import { Client, GatewayIntentBits, Partials } from "discord.js";
 import { loadCommandHandlers } from "./loaders/command-loader";
+import { loadComponentHandlers } from "./loaders/component-loader";
+import { loadContextMenuHandlers } from "./loaders/context-menu-loader";
 import { registerInteractionHandler } from "./handlers/interaction-handler";
 import config from "@/config";
+import { ticketPanelManager } from "@/discord/utils/tickets";
+import { initCooldownStore } from "@/discord/utils/cooldown";
 
 const BOT_TOKEN = config.discord.bots.main.token;
 
@@ -31,6 +35,7 @@ const mainBot = new Client({
  * Ready event handler - fires once when bot successfully connects
  *
  * Logs the bot's username and discriminator to confirm successful login
+ * and rehydrates persisted ticket panels
  * Exits early is user object is not properly initialized
  */
 mainBot.once("clientReady", async () => {
@@ -40,26 +45,43 @@ mainBot.once("clientReady", async () => {
   }
 
   logger.info("Logged in as", mainBot.user.tag);
+
+  try {
+    await ticketPanelManager.restore(mainBot);
+  } catch (error) {
+    logger.error("Failed to restore ticket panels:", error);
+  }
 });
 
 /**
- * Bot initializaton IIFE
+ * Starts the main bot
  *
  * Performs the following statup sequence:
- * 1. Loads all command handlers from the commands directory
- * 2. Registers the interaction handler to route commands
- * 3. Authenticates and connects to Discord gateway
+ * 1. Sets up the cooldown store (reloading persisted cooldowns)
+ * 2. Loads all command, context menu and component handlers from the
+ *    interactions directory
+ * 3. Registers the interaction handler to route commands and components
+ * 4. Authenticates and connects to Discord gateway
+ *
+ * Nothing runs on import, the server calls this once the database schema
+ * has been checked.
  *
- * If any step fails, logs the error and exits the process
+ * @returns Promise resolving once the bot is logged in
  */
-(async () => {
+export async function startMainBot(): Promise<void> {
+  await initCooldownStore();
+
   const commandHandlers = await loadCommandHandlers();
-  registerInteractionHandler(mainBot, commandHandlers);
+  const componentHandlers = await loadComponentHandlers();
+  const contextMenuHandlers = await loadContextMenuHandlers();
+  registerInteractionHandler(
+    mainBot,
+    commandHandlers,
+    componentHandlers,
+    contextMenuHandlers
+  );
 
   await mainBot.login(BOT_TOKEN);
-})().catch((error) => {
-  logger.error("Failed to initialize:", error);
-  process.exit(1);
-});
+}
 
 export default mainBot;
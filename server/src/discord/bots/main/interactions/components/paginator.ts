@@ -0,0 +1,35 @@
+import { ButtonInteraction, MessageFlags } from "discord.js";
+import { EmbedPresets } from "@/discord/embeds";
+import {
+  isPaginatorActive,
+  paginatorCustomId,
+} from "@/discord/utils/embed-paginator";
+
+/**
+ * Custom IDs of embed paginator buttons, `paginator:<action>`
+ */
+export const customId = paginatorCustomId;
+
+/**
+ * Answers page buttons that no running EmbedPaginator listens to anymore
+ *
+ * Clicks on running paginators are answered by their collector. Buttons can
+ * outlive it when the bot restarts before the idle timeout removed them, the
+ * click is then told to run the command again instead of failing.
+ *
+ * @param interaction - Button interaction of a paginator button
+ * @returns Promise that resolves once an expired click is answered
+ */
+export async function button(interaction: ButtonInteraction): Promise<void> {
+  if (isPaginatorActive(interaction.message.id)) return;
+
+  await interaction.reply({
+    embeds: [
+      EmbedPresets.error(
+        "Pages Expired",
+        "These pages are no longer active. Run the command again to browse them."
+      ).build(),
+    ],
+    flags: MessageFlags.Ephemeral,
+  });
+}
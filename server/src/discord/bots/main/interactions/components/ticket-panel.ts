@@ -0,0 +1,24 @@
+import { ButtonInteraction } from "discord.js";
+import {
+  ticketPanelCustomId,
+  ticketPanelManager,
+} from "@/discord/utils/tickets";
+
+/**
+ * Custom IDs of ticket panel buttons, `ticket-panel:open:<categoryKey>`
+ */
+export const customId = ticketPanelCustomId;
+
+/**
+ * Opens a ticket in the category of the clicked panel button
+ *
+ * @param interaction - The button interaction
+ * @param payload - Action and category key decoded from the custom ID
+ * @returns Promise that resolves once the interaction has been answered
+ */
+export async function button(
+  interaction: ButtonInteraction,
+  payload: { action: string; categoryKey: string }
+): Promise<void> {
+  await ticketPanelManager.handleButton(interaction, payload);
+}
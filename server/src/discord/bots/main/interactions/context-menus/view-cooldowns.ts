@@ -0,0 +1,49 @@
+import {
+  ApplicationCommandType,
+  ContextMenuCommandBuilder,
+  MessageFlags,
+  PermissionFlagsBits,
+} from "discord.js";
+import { EmbedPresets } from "@/discord/embeds";
+import { cooldownManager } from "@/discord/utils/cooldown/cooldown-manager";
+import { EmbedPaginator, pageArray } from "@/discord/utils/embed-paginator";
+import type { CooldownEntry } from "@/discord/utils/cooldown/cooldown-store";
+import type { ContextMenuInteraction } from "../../loaders/context-menu-loader";
+
+/**
+ * User context menu command listing the active cooldowns of a member
+ * Same as `/cooldown list user:<member>`, requires Administrator permissions
+ */
+export const data = new ContextMenuCommandBuilder()
+  .setName("View Cooldowns")
+  .setType(ApplicationCommandType.User)
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator);
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development environments
+ */
+export const prodOnly = false;
+
+/**
+ * Pages through the active cooldowns started by the target user
+ *
+ * @param interaction - The user context menu interaction
+ * @returns Promise that resolves when the command execution is complete
+ */
+export async function execute(
+  interaction: ContextMenuInteraction
+): Promise<void> {
+  if (!interaction.isUserContextMenuCommand()) return;
+
+  const user = interaction.targetUser;
+  const entries = await cooldownManager.getUserCooldowns(user.id);
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  await new EmbedPaginator<CooldownEntry>({
+    fetchPage: pageArray(entries),
+    render: (items, pageIndex) =>
+      EmbedPresets.commands.cooldownList(user.id, items, pageIndex).build(),
+  }).start(interaction);
+}
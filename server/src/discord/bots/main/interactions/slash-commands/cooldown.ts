@@ -1,18 +1,37 @@
 import {
   SlashCommandBuilder,
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
+  MessageFlags,
   PermissionFlagsBits,
 } from "discord.js";
 import { EmbedPresets } from "@/discord/embeds";
-import { cooldownManager } from "@/discord/utils/cooldown/cooldown-manager";
+import {
+  cooldownManager,
+  formatCooldownName,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import type { CooldownEntry } from "@/discord/utils/cooldown/cooldown-store";
+import { EmbedPaginator, pageArray } from "@/discord/utils/embed-paginator";
+
+/**
+ * Formats a remaining time in seconds as a relative Discord timestamp
+ */
+function formatExpiry(remaining: number | null): string {
+  return remaining === null
+    ? "now"
+    : `<t:${Math.ceil(Date.now() / 1000 + remaining)}:R>`;
+}
 
 /**
  * Slash command definition for the cooldown management command
  *
- * Allows administrators to manage command cooldowns with three subcommands:
+ * Allows administrators to manage command cooldowns with six subcommands:
  * - reset: Reset all cooldowns for a specific user
  * - reset-command: Reset all cooldowns for a specific command
  * - stats: View statistics about active cooldowns
+ * - list: List the active cooldowns started by a user
+ * - set: Put a user on cooldown for a command
+ * - extend: Lengthen the active cooldown of a user for a command
  *
  * Requires Administrator permissions to use
  */
@@ -40,10 +59,77 @@ export const data = new SlashCommandBuilder()
           .setName("command")
           .setDescription("Command name to reset")
           .setRequired(true)
+          .setAutocomplete(true)
       )
   )
   .addSubcommand((sub) =>
     sub.setName("stats").setDescription("View cooldown statistics")
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("list")
+      .setDescription("List the active cooldowns started by a user")
+      .addUserOption((opt) =>
+        opt
+          .setName("user")
+          .setDescription("User to list cooldowns for (defaults to you)")
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName("command")
+          .setDescription("Only list cooldowns of this command")
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("set")
+      .setDescription("Put a user on cooldown for a command")
+      .addUserOption((opt) =>
+        opt
+          .setName("user")
+          .setDescription("User to put on cooldown")
+          .setRequired(true)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName("command")
+          .setDescription("Command the cooldown applies to")
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName("duration")
+          .setDescription("Cooldown duration in seconds")
+          .setRequired(true)
+          .setMinValue(1)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("extend")
+      .setDescription("Lengthen the active cooldown of a user")
+      .addUserOption((opt) =>
+        opt
+          .setName("user")
+          .setDescription("User whose cooldown to extend")
+          .setRequired(true)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName("command")
+          .setDescription("Command of the cooldown")
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+      .addIntegerOption((opt) =>
+        opt
+          .setName("duration")
+          .setDescription("Seconds to add")
+          .setRequired(true)
+          .setMinValue(1)
+      )
   );
 
 /**
@@ -52,16 +138,44 @@ export const data = new SlashCommandBuilder()
  */
 export const prodOnly = false;
 
+/**
+ * Suggests the names of commands with a cooldown for the command option
+ *
+ * @param interaction - The autocomplete interaction
+ * @returns Promise that resolves once the suggestions are sent
+ */
+export async function autocomplete(
+  interaction: AutocompleteInteraction
+): Promise<void> {
+  const focused = interaction.options.getFocused().toLowerCase();
+
+  const choices = cooldownManager
+    .getCommandNames()
+    .filter((name) => name.includes(focused))
+    .slice(0, 25)
+    .map((name) => ({ name: formatCooldownName(name), value: name }));
+
+  await interaction.respond(choices);
+}
+
 /**
  * Executes the cooldown management command
  *
- * Handles three subcommands:
+ * Handles six subcommands:
  * 1. reset - Resets all cooldowns for a specific user and displays the count
  * 2. reset-command - Resets all cooldowns for a specific command
  * 3. stats - Displays statistics about active cooldowns including:
  *    - Total number of active cooldowns
  *    - Number of commands with cooldowns
  *    - Breakdown by command name
+ * 4. list - Pages through the active cooldowns started by a user
+ * 5. set - Uses up all charges of a user for a command for the given time,
+ *    replacing the current cooldown
+ * 6. extend - Adds time to the active cooldown of a user for a command
+ *
+ * set and extend only accept commands with a per-user cooldown. Global,
+ * channel and guild cooldowns are shared, blocking them would block every
+ * user in the scope instead of the target.
  *
  * @param interaction - The chat input command interaction
  * @returns Promise that resolves when the command execution is complete
@@ -82,7 +196,7 @@ export async function execute(
   switch (subcommand) {
     case "reset": {
       const user = interaction.options.getUser("user", true);
-      const count = cooldownManager.resetUser(user.id);
+      const count = await cooldownManager.resetUser(user.id);
 
       const embed = EmbedPresets.success(
         "Cooldowns Reset",
@@ -95,16 +209,20 @@ export async function execute(
 
     case "reset-command": {
       const commandName = interaction.options.getString("command", true);
-      const success = cooldownManager.resetCommand(commandName);
+      const success = await cooldownManager.resetCommand(commandName);
 
       const embed = success
         ? EmbedPresets.success(
             "Command Cooldowns Reset",
-            `All cooldowns for \`/${commandName}\` have been reset.`
+            `All cooldowns for \`${formatCooldownName(
+              commandName
+            )}\` have been reset.`
           )
         : EmbedPresets.error(
             "No Cooldowns Found",
-            `No active cooldowns found for \`/${commandName}\``
+            `No active cooldowns found for \`${formatCooldownName(
+              commandName
+            )}\``
           );
 
       await interaction.reply({ embeds: [embed.build()] });
@@ -112,12 +230,100 @@ export async function execute(
     }
 
     case "stats": {
-      const stats = cooldownManager.getStats();
+      const stats = await cooldownManager.getStats();
 
       const embed = EmbedPresets.commands.cooldownStats(stats);
 
       await interaction.reply({ embeds: [embed.build()] });
       break;
     }
+
+    case "list": {
+      const user = interaction.options.getUser("user") ?? interaction.user;
+      const commandName = interaction.options.getString("command");
+
+      const entries = await cooldownManager.getUserCooldowns(
+        user.id,
+        commandName
+      );
+
+      await interaction.deferReply();
+
+      await new EmbedPaginator<CooldownEntry>({
+        fetchPage: pageArray(entries),
+        render: (items, pageIndex) =>
+          EmbedPresets.commands.cooldownList(user.id, items, pageIndex).build(),
+      }).start(interaction);
+      break;
+    }
+
+    case "set":
+    case "extend": {
+      const user = interaction.options.getUser("user", true);
+      const commandName = interaction.options.getString("command", true);
+      const duration = interaction.options.getInteger("duration", true);
+      const cfg = cooldownManager.getCommandConfig(commandName);
+
+      if (!cfg) {
+        const embed = EmbedPresets.error(
+          "No Cooldown Configured",
+          `\`${formatCooldownName(commandName)}\` has no cooldown.`
+        );
+        await interaction.reply({ embeds: [embed.build()] });
+        break;
+      }
+
+      if (cfg.type !== "user") {
+        // The cooldown is shared by everyone in its scope, not just the user
+        const embed = EmbedPresets.error(
+          "Not a Per-User Cooldown",
+          `\`${formatCooldownName(commandName)}\` has a ${
+            cfg.type
+          } cooldown, setting it would affect every user in that scope. Only per-user cooldowns can be set for a user.`
+        );
+        await interaction.reply({
+          embeds: [embed.build()],
+          flags: MessageFlags.Ephemeral,
+        });
+        break;
+      }
+
+      const context = {
+        userId: user.id,
+        channelId: interaction.channelId,
+        guildId: interaction.guildId,
+      };
+
+      if (subcommand === "set") {
+        await cooldownManager.block(commandName, cfg, context, duration);
+      } else if (
+        !(await cooldownManager.extend(commandName, cfg, context, duration))
+      ) {
+        const embed = EmbedPresets.error(
+          "No Cooldowns Found",
+          `${user.tag} has no active cooldown for \`${formatCooldownName(
+            commandName
+          )}\``
+        );
+        await interaction.reply({ embeds: [embed.build()] });
+        break;
+      }
+
+      const remaining = await cooldownManager.getRemaining(
+        commandName,
+        cfg.type,
+        context
+      );
+
+      const embed = EmbedPresets.success(
+        subcommand === "set" ? "Cooldown Set" : "Cooldown Extended",
+        `${user.tag} is on cooldown for \`${formatCooldownName(
+          commandName
+        )}\` (${cfg.type}), fully expiring ${formatExpiry(remaining)}`
+      ).build();
+
+      await interaction.reply({ embeds: [embed] });
+      break;
+    }
   }
 }
@@ -0,0 +1,161 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  TextChannel,
+} from "discord.js";
+import config from "@/config";
+import { EmbedPresets } from "@/discord/embeds";
+import { ticketPanelManager, TicketError } from "@/discord/utils/tickets";
+
+const ticketConfig = config.discord.tickets;
+
+/**
+ * Slash command definition for the ticket panel command
+ *
+ * Allows administrators to manage ticket panels with two subcommands:
+ * - create: Post a panel with one button per ticket category
+ * - remove: Delete a panel and stop tracking it
+ *
+ * Requires Administrator permissions to use
+ */
+export const data = new SlashCommandBuilder()
+  .setName("ticket-panel")
+  .setDescription("Manage ticket panels")
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .addSubcommand((sub) =>
+    sub
+      .setName("create")
+      .setDescription("Post a ticket panel")
+      .addChannelOption((opt) =>
+        opt
+          .setName("channel")
+          .setDescription("Channel to post the panel in")
+          .addChannelTypes(ChannelType.GuildText)
+          .setRequired(true)
+      )
+      .addStringOption((opt) =>
+        opt.setName("title").setDescription("Panel title").setMaxLength(256)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName("description")
+          .setDescription("Panel description")
+          .setMaxLength(4000)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName("categories")
+          .setDescription(
+            "Comma separated category keys to show (defaults to all categories)"
+          )
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("remove")
+      .setDescription("Remove a ticket panel")
+      .addStringOption((opt) =>
+        opt
+          .setName("message_id")
+          .setDescription("Message ID of the panel")
+          .setRequired(true)
+      )
+  );
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development environments
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the ticket panel command
+ *
+ * Handles two subcommands:
+ * 1. create - Posts a panel embed with one button per category and persists it
+ * 2. remove - Deletes the panel message and its ticket_panels row
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise that resolves when the command execution is complete
+ *
+ * @example
+ * // Admin runs: /ticket-panel create channel:#support categories:support,technical
+ * // Bot posts the panel in #support with two buttons
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    switch (subcommand) {
+      case "create": {
+        const channel = interaction.options.getChannel("channel", true, [
+          ChannelType.GuildText,
+        ]);
+
+        if (!(channel instanceof TextChannel)) {
+          throw new TicketError("Panels can only be posted in text channels.");
+        }
+
+        const categories =
+          interaction.options
+            .getString("categories")
+            ?.split(",")
+            .map((key) => key.trim())
+            .filter(Boolean) ?? ticketConfig.categories.map((c) => c.key);
+
+        const panel = await ticketPanelManager.create(channel, {
+          title: interaction.options.getString("title") ?? "🎫 Support Tickets",
+          description:
+            interaction.options.getString("description") ??
+            "Click a button below to open a ticket.",
+          categories,
+        });
+
+        await interaction.reply({
+          embeds: [
+            EmbedPresets.success(
+              "Ticket Panel Created",
+              `Panel posted in <#${panel.channelId}> (message \`${panel.messageId}\`)`
+            ).build(),
+          ],
+          flags: MessageFlags.Ephemeral,
+        });
+        break;
+      }
+
+      case "remove": {
+        const messageId = interaction.options.getString("message_id", true);
+        await ticketPanelManager.remove(
+          interaction.client,
+          messageId,
+          interaction.user.id
+        );
+
+        await interaction.reply({
+          embeds: [
+            EmbedPresets.success(
+              "Ticket Panel Removed",
+              `Panel \`${messageId}\` has been removed.`
+            ).build(),
+          ],
+          flags: MessageFlags.Ephemeral,
+        });
+        break;
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof TicketError)) {
+      throw error;
+    }
+
+    await interaction.reply({
+      embeds: [EmbedPresets.error("Ticket Panel Error", error.message).build()],
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+}
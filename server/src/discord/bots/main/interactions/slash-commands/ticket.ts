@@ -0,0 +1,266 @@
+import {
+  ChatInputCommandInteraction,
+  MessageFlags,
+  SlashCommandBuilder,
+} from "discord.js";
+import config from "@/config";
+import type { TicketArchiveFormat } from "@/db/types/tickets.types";
+import { EmbedPresets } from "@/discord/embeds";
+import { isTextChannel } from "@/discord/utils/channel-guard";
+import { EmbedPaginator } from "@/discord/utils/embed-paginator";
+import { ticketManager, TicketError } from "@/discord/utils/tickets";
+
+const ticketConfig = config.discord.tickets;
+
+/**
+ * Slash command definition for the ticket command
+ *
+ * Provides the ticket lifecycle through six subcommands:
+ * - open: Open a new ticket in a category
+ * - close: Close the current ticket with an optional reason
+ * - add: Add a user to the current ticket
+ * - remove: Remove a user from the current ticket
+ * - claim: Claim the current ticket as a staff member
+ * - history: Browse the tickets opened by a user
+ */
+export const data = new SlashCommandBuilder()
+  .setName("ticket")
+  .setDescription("Open and manage support tickets")
+  .addSubcommand((sub) =>
+    sub
+      .setName("open")
+      .setDescription("Open a new ticket")
+      .addStringOption((opt) =>
+        opt
+          .setName("category")
+          .setDescription("What the ticket is about")
+          .setRequired(true)
+          .addChoices(
+            ...ticketConfig.categories.map((category) => ({
+              name: category.label,
+              value: category.key,
+            }))
+          )
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("close")
+      .setDescription("Close this ticket")
+      .addStringOption((opt) =>
+        opt
+          .setName("reason")
+          .setDescription("Reason for closing the ticket")
+          .setMaxLength(1000)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName("format")
+          .setDescription("Transcript format")
+          .addChoices(
+            { name: "HTML", value: "html" },
+            { name: "Text", value: "txt" },
+            { name: "JSON", value: "json" }
+          )
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("add")
+      .setDescription("Add a user to this ticket")
+      .addUserOption((opt) =>
+        opt.setName("user").setDescription("User to add").setRequired(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("remove")
+      .setDescription("Remove a user from this ticket")
+      .addUserOption((opt) =>
+        opt.setName("user").setDescription("User to remove").setRequired(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub.setName("claim").setDescription("Claim this ticket as staff")
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName("history")
+      .setDescription("Browse past tickets")
+      .addUserOption((opt) =>
+        opt
+          .setName("user")
+          .setDescription(
+            "User whose tickets to show (staff only, defaults to you)"
+          )
+      )
+  );
+
+/**
+ * Cooldown configuration for the ticket command
+ *
+ * - duration: 5 seconds
+ * - type: "user" - Each user has their own cooldown
+ */
+export const cooldown = {
+  duration: 5,
+  type: "user" as const,
+};
+
+/**
+ * Whether this command should only be available in production
+ * Set to false to allow usage in development environments
+ */
+export const prodOnly = false;
+
+/**
+ * Executes the ticket command
+ *
+ * Ticket errors (unknown category, not a ticket channel, missing permissions, ...)
+ * are shown to the user as an ephemeral error embed. Any other error is rethrown
+ * to the interaction handler.
+ *
+ * @param interaction - The chat input command interaction
+ * @returns Promise that resolves when the command execution is complete
+ *
+ * @example
+ * // User runs: /ticket open category:support
+ * // Bot creates #support-0001 and replies with a link to it
+ *
+ * @example
+ * // Staff runs: /ticket close reason:Resolved
+ * // Bot records the closure, archives the transcript and deletes the channel after a short delay
+ */
+export async function execute(
+  interaction: ChatInputCommandInteraction
+): Promise<void> {
+  if (!interaction.inCachedGuild()) {
+    await interaction.reply({
+      embeds: [
+        EmbedPresets.error(
+          "Unavailable",
+          "Tickets can only be used inside a server."
+        ).build(),
+      ],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const subcommand = interaction.options.getSubcommand();
+
+  try {
+    if (subcommand === "open") {
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      const { ticket } = await ticketManager.open(
+        interaction.guild,
+        interaction.user,
+        interaction.options.getString("category", true)
+      );
+
+      await interaction.editReply({
+        embeds: [EmbedPresets.tickets.opened(ticket).build()],
+      });
+      return;
+    }
+
+    if (subcommand === "history") {
+      const user = interaction.options.getUser("user") ?? interaction.user;
+      const member = interaction.member;
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+      await new EmbedPaginator({
+        fetchPage: (cursor) => ticketManager.getHistory(member, user, cursor),
+        render: (tickets, pageIndex) =>
+          EmbedPresets.tickets.history(user.id, tickets, pageIndex).build(),
+      }).start(interaction);
+      return;
+    }
+
+    const channel = interaction.channel;
+
+    if (!isTextChannel(channel)) {
+      throw new TicketError("This channel is not a ticket.");
+    }
+
+    switch (subcommand) {
+      case "close": {
+        await interaction.deferReply();
+
+        const ticket = await ticketManager.close(
+          channel,
+          interaction.member,
+          interaction.options.getString("reason"),
+          interaction.options.getString("format") as TicketArchiveFormat | null
+        );
+
+        await interaction.editReply({
+          embeds: [
+            EmbedPresets.tickets
+              .closed(ticket, ticketConfig.closeDelaySeconds)
+              .build(),
+          ],
+        });
+        break;
+      }
+
+      case "add": {
+        const user = interaction.options.getUser("user", true);
+        await ticketManager.addParticipant(channel, interaction.member, user);
+
+        await interaction.reply({
+          embeds: [
+            EmbedPresets.tickets
+              .participantAdded(user.id, interaction.user.id)
+              .build(),
+          ],
+        });
+        break;
+      }
+
+      case "remove": {
+        const user = interaction.options.getUser("user", true);
+        await ticketManager.removeParticipant(
+          channel,
+          interaction.member,
+          user
+        );
+
+        await interaction.reply({
+          embeds: [
+            EmbedPresets.tickets
+              .participantRemoved(user.id, interaction.user.id)
+              .build(),
+          ],
+        });
+        break;
+      }
+
+      case "claim": {
+        const ticket = await ticketManager.claim(channel, interaction.member);
+
+        await interaction.reply({
+          embeds: [EmbedPresets.tickets.claimed(ticket).build()],
+        });
+        break;
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof TicketError)) {
+      throw error;
+    }
+
+    const embed = EmbedPresets.error("Ticket Error", error.message).build();
+
+    if (interaction.deferred) {
+      await interaction.editReply({ embeds: [embed] });
+    } else {
+      await interaction.reply({
+        embeds: [embed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
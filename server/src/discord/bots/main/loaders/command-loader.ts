@@ -1,6 +1,11 @@
 import config from "@/config";
-import { CooldownType } from "@/discord/utils/cooldown/cooldown-manager";
 import {
+  cooldownManager,
+  CooldownStrategy,
+  CooldownType,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import {
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
   Collection,
   SlashCommandBuilder,
@@ -11,22 +16,31 @@ import fs from "node:fs";
 
 const isDev = config.envMode.isDev;
 
+/**
+ * Cooldown configuration of a command or component
+ */
+export interface CommandCooldown {
+  duration: number; // in seconds, the window for charges and sliding limits
+  type: CooldownType;
+  strategy?: CooldownStrategy; // Defaults to "fixed"
+  uses?: number; // Uses per duration for charges and sliding limits
+  failurePenalty?: number; // Seconds a use still counts when the command fails
+  message?: string; // Custom cooldown message
+  bypassRoles?: string[]; // Role IDs that bypass cooldown
+  bypassUsers?: string[]; // User IDs that bypass cooldown
+}
+
 /**
  * Discord command module structure
  */
 export interface CommandModule {
   data: SlashCommandBuilder;
   execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+  autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>;
   prodOnly?: boolean;
 
   // Cooldown configuration
-  cooldown?: {
-    duration: number; // in seconds
-    type: CooldownType;
-    message?: string; // Custom cooldown message
-    bypassRoles?: string[]; // Role IDs that bypass cooldown
-    bypassUsers?: string[]; // User IDs that bypass cooldown
-  };
+  cooldown?: CommandCooldown;
 }
 
 /**
@@ -84,8 +98,16 @@ export async function loadCommandHandlers(): Promise<
       commandHandlers.set(commandModule.data.name, commandModule);
 
       if (commandModule.cooldown) {
+        cooldownManager.registerCommand(
+          commandModule.data.name,
+          commandModule.cooldown
+        );
         logger.debug(
-          `Command ${commandModule.data.name} has ${commandModule.cooldown.type} cooldown: ${commandModule.cooldown.duration}s`
+          `Command ${commandModule.data.name} has ${
+            commandModule.cooldown.type
+          } ${commandModule.cooldown.strategy ?? "fixed"} cooldown: ${
+            commandModule.cooldown.uses ?? 1
+          } use(s) per ${commandModule.cooldown.duration}s`
         );
       }
     } catch (error) {
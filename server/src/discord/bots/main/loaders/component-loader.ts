@@ -0,0 +1,115 @@
+import config from "@/config";
+import { CustomId, type CustomIdPayload } from "@/discord/utils/custom-id";
+import {
+  AnySelectMenuInteraction,
+  ButtonInteraction,
+  Collection,
+  ModalSubmitInteraction,
+} from "discord.js";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import fs from "node:fs";
+import type { CommandCooldown } from "./command-loader";
+
+const isDev = config.envMode.isDev;
+
+/**
+ * Interactions of message components and modals
+ */
+export type ComponentInteraction =
+  | ButtonInteraction
+  | AnySelectMenuInteraction
+  | ModalSubmitInteraction;
+
+/**
+ * Discord component module structure
+ *
+ * Interactions are routed by the prefix of their custom ID, the rest of the
+ * custom ID is decoded into the payload passed to the handler.
+ */
+export interface ComponentModule<
+  TPayload extends CustomIdPayload = CustomIdPayload
+> {
+  customId: CustomId<TPayload>;
+  button?: (interaction: ButtonInteraction, payload: TPayload) => Promise<void>;
+  selectMenu?: (
+    interaction: AnySelectMenuInteraction,
+    payload: TPayload
+  ) => Promise<void>;
+  modalSubmit?: (
+    interaction: ModalSubmitInteraction,
+    payload: TPayload
+  ) => Promise<void>;
+  prodOnly?: boolean;
+
+  // Cooldown configuration, keyed by the custom ID prefix
+  cooldown?: CommandCooldown;
+}
+
+/**
+ * Loads Discord component handlers
+ * from discord/bots/main/interactions/components folder
+ *
+ * @returns Promise resolving to the componentHandlers keyed by custom ID prefix
+ */
+export async function loadComponentHandlers(): Promise<
+  Collection<string, ComponentModule>
+> {
+  const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+  const componentsPath = path.join(
+    __dirname,
+    "..",
+    "interactions",
+    "components"
+  );
+  const componentFiles = fs
+    .readdirSync(componentsPath)
+    .filter((file) => (isDev ? file.endsWith(".ts") : file.endsWith(".js")));
+
+  const componentHandlers = new Collection<string, ComponentModule>();
+
+  for (const file of componentFiles) {
+    const filePath = path.join(componentsPath, file);
+    try {
+      const componentModule = (await import(
+        pathToFileURL(filePath).href
+      )) as ComponentModule;
+
+      if (!(componentModule.customId instanceof CustomId)) {
+        logger.warn(`Skipped ${file}: missing 'customId' export`);
+        continue;
+      }
+
+      if (
+        !componentModule.button &&
+        !componentModule.selectMenu &&
+        !componentModule.modalSubmit
+      ) {
+        logger.warn(
+          `Skipped ${file}: no 'button', 'selectMenu' or 'modalSubmit' handler`
+        );
+        continue;
+      }
+
+      const prefix = componentModule.customId.prefix;
+
+      if (componentHandlers.has(prefix)) {
+        logger.warn(`Skipped ${file}: custom ID prefix '${prefix}' is taken`);
+        continue;
+      }
+
+      if (isDev && componentModule.prodOnly === true) {
+        logger.warn(`Skipped loading production only component: ${file}`);
+        continue;
+      }
+
+      componentHandlers.set(prefix, componentModule);
+    } catch (error) {
+      logger.error(`Failed to load component ${file}:`, error);
+    }
+  }
+
+  logger.info(`Loaded ${componentHandlers.size} Discord component handler(s)`);
+  return componentHandlers;
+}
@@ -0,0 +1,109 @@
+import config from "@/config";
+import {
+  cooldownManager,
+  getContextMenuCooldownName,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import {
+  Collection,
+  ContextMenuCommandBuilder,
+  MessageContextMenuCommandInteraction,
+  UserContextMenuCommandInteraction,
+} from "discord.js";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import fs from "node:fs";
+import type { CommandCooldown } from "./command-loader";
+
+const isDev = config.envMode.isDev;
+
+/**
+ * Interactions of user and message context menu commands
+ */
+export type ContextMenuInteraction =
+  | UserContextMenuCommandInteraction
+  | MessageContextMenuCommandInteraction;
+
+/**
+ * Discord context menu command module structure
+ *
+ * The type set on the builder (ApplicationCommandType.User or Message)
+ * decides which interaction execute receives.
+ */
+export interface ContextMenuModule {
+  data: ContextMenuCommandBuilder;
+  execute: (interaction: ContextMenuInteraction) => Promise<void>;
+  prodOnly?: boolean;
+
+  // Cooldown configuration
+  cooldown?: CommandCooldown;
+}
+
+/**
+ * Loads Discord context menu command handlers
+ * from discord/bots/main/interactions/context-menus folder
+ *
+ * @returns Promise resolving to the contextMenuHandlers keyed by command name
+ */
+export async function loadContextMenuHandlers(): Promise<
+  Collection<string, ContextMenuModule>
+> {
+  const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+  const contextMenusPath = path.join(
+    __dirname,
+    "..",
+    "interactions",
+    "context-menus"
+  );
+  const contextMenuFiles = fs
+    .readdirSync(contextMenusPath)
+    .filter((file) => (isDev ? file.endsWith(".ts") : file.endsWith(".js")));
+
+  const contextMenuHandlers = new Collection<string, ContextMenuModule>();
+
+  for (const file of contextMenuFiles) {
+    const filePath = path.join(contextMenusPath, file);
+    try {
+      const contextMenuModule = (await import(
+        pathToFileURL(filePath).href
+      )) as ContextMenuModule;
+
+      if (!(contextMenuModule.data instanceof ContextMenuCommandBuilder)) {
+        logger.warn(`Skipped ${file}: missing 'data' context menu builder`);
+        continue;
+      }
+
+      if (typeof contextMenuModule.execute !== "function") {
+        logger.warn(`Skipped ${file}: 'execute' is not a function`);
+        continue;
+      }
+
+      if (!contextMenuModule.data.name || !contextMenuModule.data.type) {
+        logger.warn(`Skipped ${file}: context menu has no name or type`);
+        continue;
+      }
+
+      if (isDev && contextMenuModule.prodOnly === true) {
+        logger.warn(`Skipped loading production only context menu: ${file}`);
+        continue;
+      }
+
+      contextMenuHandlers.set(contextMenuModule.data.name, contextMenuModule);
+
+      if (contextMenuModule.cooldown) {
+        cooldownManager.registerCommand(
+          getContextMenuCooldownName(contextMenuModule.data.name),
+          contextMenuModule.cooldown
+        );
+        logger.debug(
+          `Context menu ${contextMenuModule.data.name} has ${contextMenuModule.cooldown.type} cooldown: ${contextMenuModule.cooldown.duration}s`
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to load context menu ${file}:`, error);
+    }
+  }
+
+  logger.info(`Loaded ${contextMenuHandlers.size} Discord context menu(s)`);
+  return contextMenuHandlers;
+}
@@ -1,92 +1,123 @@
+import "@/logger.global";
 import config from "@/config";
 import {
+  APIApplicationCommand,
   RESTPostAPIApplicationCommandsJSONBody,
-  SlashCommandBuilder,
-  SlashCommandSubcommandsOnlyBuilder,
   REST,
   Routes,
-  PermissionFlagsBits,
 } from "discord.js";
+import { loadCommandHandlers } from "@/discord/bots/main/loaders/command-loader";
+import { loadContextMenuHandlers } from "@/discord/bots/main/loaders/context-menu-loader";
+import { diffCommands, formatCommand, type CommandDiff } from "./command-diff";
+
+/**
+ * Deploys the slash and context menu commands of the main bot to the guild
+ *
+ * The payload is built from the loaded command modules, so production only
+ * commands are left out in development. Commands are only submitted when
+ * they differ from the ones registered on Discord.
+ *
+ * @example
+ *   npm run util:deploy-commands               # deploy if anything changed
+ *   npm run util:deploy-commands -- --dry-run  # only print the changes
+ */
 
 const BOT_TOKEN = config.discord.bots.main.token;
 const BOT_ID = config.discord.bots.main.id;
 const GUILD_ID = config.discord.guild.id;
 
+const dryRun = process.argv.slice(2).includes("--dry-run");
+
 /**
- * Array of SlashCommandBuilder instances defining bot commands
+ * Discord REST API client configured with bot token
  */
-const commandBuilders: (
-  | SlashCommandBuilder
-  | SlashCommandSubcommandsOnlyBuilder
-)[] = [
-  new SlashCommandBuilder().setName("ping").setDescription("Check bot latency"),
-
-  new SlashCommandBuilder()
-    .setName("cooldown")
-    .setDescription("Manage command cooldowns")
-    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
-    .addSubcommand((sub) =>
-      sub
-        .setName("reset")
-        .setDescription("Reset cooldown for a user")
-        .addUserOption((opt) =>
-          opt
-            .setName("user")
-            .setDescription("User to reset cooldowns for")
-            .setRequired(true)
-        )
-    )
-    .addSubcommand((sub) =>
-      sub
-        .setName("reset-command")
-        .setDescription("Reset all cooldowns for a specific command")
-        .addStringOption((opt) =>
-          opt
-            .setName("command")
-            .setDescription("Command name to reset")
-            .setRequired(true)
-        )
-    )
-    .addSubcommand((sub) =>
-      sub.setName("stats").setDescription("View cooldown statistics")
-    ),
-];
+const rest = new REST({ version: "10" }).setToken(BOT_TOKEN);
 
 /**
- * JSON representation of slash commands ready for API submission
- * Converted to SlashCommandBuilder instances
+ * Builds the command payload from the loaded command modules
+ *
+ * @returns Promise resolving to the JSON body of every command
  */
-const commands: RESTPostAPIApplicationCommandsJSONBody[] = commandBuilders.map(
-  (cmd) => cmd.toJSON()
-);
+async function buildCommands(): Promise<
+  RESTPostAPIApplicationCommandsJSONBody[]
+> {
+  const commandHandlers = await loadCommandHandlers();
+  const contextMenuHandlers = await loadContextMenuHandlers();
+
+  return [
+    ...commandHandlers.map((command) => command.data.toJSON()),
+    ...contextMenuHandlers.map((contextMenu) => contextMenu.data.toJSON()),
+  ];
+}
 
 /**
- * Discord REST API client configured with bot token
+ * Prints the added, removed and changed commands
  */
-const rest = new REST({ version: "10" }).setToken(BOT_TOKEN);
+function printDiff(diff: CommandDiff): void {
+  for (const [label, commands] of [
+    ["Added", diff.added],
+    ["Removed", diff.removed],
+    ["Changed", diff.changed],
+  ] as const) {
+    if (commands.length === 0) continue;
+
+    console.log(`${label}:`);
+    commands.forEach((command) => console.log(` - ${formatCommand(command)}`));
+  }
+}
 
 /**
- * Registers all defined slash commands to the configured guild
+ * Registers the loaded commands in the configured guild
  *
- * This function submits the commands array to Discord's API, replacing
- * any existing guild commands. Registration is guild-specific
+ * Process:
+ * 1. Builds the payload from the loaded command modules
+ * 2. Fetches the commands currently registered in the guild
+ * 3. Prints the differences, and stops there on --dry-run or if nothing changed
+ * 4. Replaces the guild commands with the payload
  *
  * @returns Promise resolving when registration is completed
  */
 async function registerCommands(): Promise<void> {
-  try {
-    console.log("Registering slash commands in GUILD:", GUILD_ID);
+  const commands = await buildCommands();
 
-    const data = (await rest.put(
-      Routes.applicationGuildCommands(BOT_ID, GUILD_ID),
-      { body: commands }
-    )) as Array<{ name: string }>;
+  if (commands.length === 0) {
+    // Most likely the wrong build was loaded, deploying would remove everything
+    throw new Error("No commands were loaded, refusing to deploy");
+  }
 
-    console.log("Commands registered:");
-    data.forEach((cmd) => console.log(` - /${cmd.name}`));
-  } catch (error) {
-    logger.error("Failed to register commands:", error);
+  console.log("Comparing commands in GUILD:", GUILD_ID);
+
+  const registered = (await rest.get(
+    Routes.applicationGuildCommands(BOT_ID, GUILD_ID)
+  )) as APIApplicationCommand[];
+
+  const diff = diffCommands(commands, registered);
+  const changes = diff.added.length + diff.removed.length + diff.changed.length;
+
+  if (changes === 0) {
+    console.log("Commands are up to date");
+    return;
   }
+
+  printDiff(diff);
+
+  if (dryRun) {
+    console.log(`Dry run, ${changes} change(s) not deployed`);
+    return;
+  }
+
+  const data = (await rest.put(
+    Routes.applicationGuildCommands(BOT_ID, GUILD_ID),
+    { body: commands }
+  )) as APIApplicationCommand[];
+
+  console.log("Commands registered:");
+  data.forEach((command) => console.log(` - ${formatCommand(command)}`));
 }
 
-registerCommands();
+registerCommands()
+  .catch((error) => {
+    logger.error("Failed to register commands:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => logger.close());
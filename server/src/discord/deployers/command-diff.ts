@@ -0,0 +1,161 @@
+import {
+  APIApplicationCommand,
+  APIApplicationCommandOption,
+  APIApplicationCommandOptionChoice,
+  ApplicationCommandType,
+  ApplicationIntegrationType,
+  RESTPostAPIApplicationCommandsJSONBody,
+} from "discord.js";
+
+/**
+ * Command as submitted to or returned by the Discord API
+ */
+type CommandJSON =
+  | RESTPostAPIApplicationCommandsJSONBody
+  | APIApplicationCommand;
+
+/**
+ * Differences between the local commands and the registered ones
+ */
+export interface CommandDiff {
+  added: RESTPostAPIApplicationCommandsJSONBody[];
+  removed: APIApplicationCommand[];
+  changed: RESTPostAPIApplicationCommandsJSONBody[];
+}
+
+/**
+ * Identifies a command, names are only unique per command type
+ */
+function getCommandKey(command: CommandJSON): string {
+  return `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+}
+
+/**
+ * Reduces a choice to the fields that can be submitted
+ */
+function normalizeChoice(choice: APIApplicationCommandOptionChoice): unknown {
+  return {
+    name: choice.name,
+    name_localizations: choice.name_localizations ?? null,
+    value: choice.value,
+  };
+}
+
+/**
+ * Sorts a list of enum values, the order has no meaning to Discord
+ */
+function sortValues(values: readonly number[]): number[] {
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Reduces an option to the fields that can be submitted, filling in the
+ * defaults Discord leaves out of its responses
+ */
+function normalizeOption(option: APIApplicationCommandOption): unknown {
+  const raw = option as unknown as Record<string, unknown>;
+
+  return {
+    type: option.type,
+    name: option.name,
+    name_localizations: option.name_localizations ?? null,
+    description: option.description,
+    description_localizations: option.description_localizations ?? null,
+    required: option.required ?? false,
+    autocomplete: raw.autocomplete ?? false,
+    choices: Array.isArray(raw.choices)
+      ? (raw.choices as APIApplicationCommandOptionChoice[]).map(
+          normalizeChoice
+        )
+      : null,
+    channel_types: raw.channel_types ?? null,
+    min_value: raw.min_value ?? null,
+    max_value: raw.max_value ?? null,
+    min_length: raw.min_length ?? null,
+    max_length: raw.max_length ?? null,
+    options: Array.isArray(raw.options)
+      ? (raw.options as APIApplicationCommandOption[]).map(normalizeOption)
+      : null,
+  };
+}
+
+/**
+ * Reduces a command to the fields that can be submitted, filling in the
+ * defaults Discord leaves out of its responses
+ */
+function normalizeCommand(command: CommandJSON): unknown {
+  const raw = command as unknown as Record<string, unknown>;
+
+  return {
+    type: command.type ?? ApplicationCommandType.ChatInput,
+    name: command.name,
+    name_localizations: command.name_localizations ?? null,
+    description: raw.description ?? "",
+    description_localizations: raw.description_localizations ?? null,
+    default_member_permissions: command.default_member_permissions ?? null,
+    nsfw: command.nsfw ?? false,
+    // Guild commands are installed to the guild unless set otherwise
+    integration_types: sortValues(
+      command.integration_types ?? [ApplicationIntegrationType.GuildInstall]
+    ),
+    contexts: command.contexts ? sortValues(command.contexts) : null,
+    options: Array.isArray(raw.options)
+      ? (raw.options as APIApplicationCommandOption[]).map(normalizeOption)
+      : [],
+  };
+}
+
+/**
+ * Compares the local command payload with the registered commands
+ *
+ * @param local - Commands that would be submitted
+ * @param registered - Commands currently registered on Discord
+ * @returns Added, removed and changed commands
+ */
+export function diffCommands(
+  local: RESTPostAPIApplicationCommandsJSONBody[],
+  registered: APIApplicationCommand[]
+): CommandDiff {
+  const registeredByKey = new Map(
+    registered.map((command) => [getCommandKey(command), command])
+  );
+  const localKeys = new Set(local.map(getCommandKey));
+  const diff: CommandDiff = { added: [], removed: [], changed: [] };
+
+  for (const command of local) {
+    const current = registeredByKey.get(getCommandKey(command));
+
+    if (!current) {
+      diff.added.push(command);
+    } else if (
+      JSON.stringify(normalizeCommand(command)) !==
+      JSON.stringify(normalizeCommand(current))
+    ) {
+      diff.changed.push(command);
+    }
+  }
+
+  diff.removed = registered.filter(
+    (command) => !localKeys.has(getCommandKey(command))
+  );
+
+  return diff;
+}
+
+/**
+ * Formats a command for console output
+ *
+ * @example
+ * formatCommand({ name: "ping" }) // "/ping"
+ * formatCommand({ name: "View Cooldowns", type: 2 }) // "View Cooldowns (user context menu)"
+ */
+export function formatCommand(command: CommandJSON): string {
+  switch (command.type) {
+    case ApplicationCommandType.User:
+      return `${command.name} (user context menu)`;
+    case ApplicationCommandType.Message:
+      return `${command.name} (message context menu)`;
+    default:
+      return `/${command.name}`;
+  }
+}
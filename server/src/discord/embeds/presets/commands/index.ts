@@ -1,4 +1,8 @@
-import { CooldownStats } from "@/discord/utils/cooldown/cooldown-manager";
+import {
+  CooldownStats,
+  formatCooldownName,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import type { CooldownEntry } from "@/discord/utils/cooldown/cooldown-store";
 import { createEmbed } from "../../embed-builder";
 import { EmbedColors } from "../../colors";
 
@@ -12,7 +16,7 @@ export const CommandEmbedPresets = {
 
     if (Object.keys(stats.byCommand).length > 0) {
       const commandList = Object.entries(stats.byCommand)
-        .map(([cmd, count]) => `\`/${cmd}\`: ${count}`)
+        .map(([cmd, count]) => `\`${formatCooldownName(cmd)}\`: ${count}`)
         .join("\n");
 
       embed.field("By Command", commandList || "None");
@@ -20,4 +24,23 @@ export const CommandEmbedPresets = {
 
     return embed;
   },
+
+  cooldownList(userId: string, entries: CooldownEntry[], pageIndex: number) {
+    const lines = entries.map((entry) => {
+      const expires = `<t:${Math.ceil(entry.expiresAt / 1000)}:R>`;
+      return `\`${formatCooldownName(entry.commandName)}\` (${
+        entry.type
+      }) - expires ${expires}`;
+    });
+
+    return createEmbed()
+      .title("⏳ Active Cooldowns")
+      .description(
+        `Cooldowns started by <@${userId}>\n\n${
+          lines.length > 0 ? lines.join("\n") : "No active cooldowns."
+        }`
+      )
+      .color(EmbedColors.Info)
+      .footer(`Page ${pageIndex + 1}`);
+  },
 };
@@ -1,7 +1,9 @@
 import { CommandEmbedPresets } from "./commands";
 import { CommonEmbedPresets } from "./common";
+import { TicketEmbedPresets } from "./tickets";
 
 export const EmbedPresets = {
   ...CommonEmbedPresets,
   commands: CommandEmbedPresets,
+  tickets: TicketEmbedPresets,
 };
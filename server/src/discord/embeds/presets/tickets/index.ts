@@ -0,0 +1,112 @@
+import type { TicketCategoryConfig } from "@/config/types";
+import type { Ticket, TicketPanelConfig } from "@/db/types/tickets.types";
+import { createEmbed } from "../../embed-builder";
+import { EmbedColors } from "../../colors";
+
+export const TicketEmbedPresets = {
+  panel(panelConfig: TicketPanelConfig) {
+    return createEmbed()
+      .title(panelConfig.title)
+      .description(panelConfig.description)
+      .color(EmbedColors.Info)
+      .noTimestamp();
+  },
+
+  welcome(ticket: Ticket, category: TicketCategoryConfig) {
+    const label = category.emoji
+      ? `${category.emoji} ${category.label}`
+      : category.label;
+
+    return createEmbed()
+      .title(`${label} - Ticket #${ticket.ticketNumber}`)
+      .description(
+        `Thanks for reaching out, <@${ticket.creatorId}>!\n${category.description}\n\nDescribe your issue and a staff member will be with you shortly. Use \`/ticket close\` when you're done.`
+      )
+      .color(EmbedColors.Info)
+      .footer(`Ticket ID: ${ticket.ticketId}`);
+  },
+
+  opened(ticket: Ticket) {
+    return createEmbed()
+      .title("✅ Ticket Opened")
+      .description(
+        `Your ticket #${ticket.ticketNumber} has been created: <#${ticket.channelId}>`
+      )
+      .color(EmbedColors.Success);
+  },
+
+  closed(ticket: Ticket, closeDelaySeconds: number) {
+    const embed = createEmbed()
+      .title(`🔒 Ticket #${ticket.ticketNumber} Closed`)
+      .description(
+        `Closed by <@${ticket.closedBy}>. This channel will be deleted in ${closeDelaySeconds} second(s).`
+      )
+      .color(EmbedColors.Warning);
+
+    if (ticket.closeReason) {
+      embed.field("Reason", ticket.closeReason);
+    }
+
+    return embed;
+  },
+
+  archived(ticket: Ticket) {
+    const embed = createEmbed()
+      .title(`🗄️ Ticket #${ticket.ticketNumber} Archived`)
+      .color(EmbedColors.System)
+      .field("Category", ticket.categoryKey, true)
+      .field("Opened By", `<@${ticket.creatorId}>`, true)
+      .field("Closed By", ticket.closedBy ? `<@${ticket.closedBy}>` : "-", true)
+      .field("Format", ticket.archiveFormat ?? "-", true);
+
+    if (ticket.closeReason) {
+      embed.field("Reason", ticket.closeReason);
+    }
+
+    return embed;
+  },
+
+  participantAdded(userId: string, addedBy: string) {
+    return createEmbed()
+      .title("➕ Participant Added")
+      .description(`<@${userId}> was added to the ticket by <@${addedBy}>.`)
+      .color(EmbedColors.Success);
+  },
+
+  participantRemoved(userId: string, removedBy: string) {
+    return createEmbed()
+      .title("➖ Participant Removed")
+      .description(
+        `<@${userId}> was removed from the ticket by <@${removedBy}>.`
+      )
+      .color(EmbedColors.Warning);
+  },
+
+  history(userId: string, tickets: Ticket[], pageIndex: number) {
+    const lines = tickets.map((ticket) => {
+      const opened = `<t:${Math.floor(
+        new Date(ticket.createdAt).getTime() / 1000
+      )}:d>`;
+      const status = ticket.status === "open" ? "🟢 open" : "🔒 closed";
+
+      return `**#${ticket.ticketNumber}** ${ticket.categoryKey} - ${status} - ${opened}`;
+    });
+
+    return createEmbed()
+      .title("🎫 Ticket History")
+      .description(
+        `Tickets opened by <@${userId}>\n\n${
+          lines.length > 0 ? lines.join("\n") : "No tickets found."
+        }`
+      )
+      .color(EmbedColors.Info)
+      .footer(`Page ${pageIndex + 1}`);
+  },
+
+  claimed(ticket: Ticket) {
+    return createEmbed()
+      .title("🙋 Ticket Claimed")
+      .description(`<@${ticket.claimedBy}> will be handling this ticket.`)
+      .color(EmbedColors.Info);
+  },
+};
@@ -1,3 +1,10 @@
+import type { CooldownType } from "@/db/types/cooldowns.types";
+import {
+  MemoryCooldownStore,
+  type CooldownEntry,
+  type CooldownStore,
+} from "./cooldown-store";
+
 /**
  * Cooldown scope types that determine how cooldowns are applied
  * - "user": Per-user cooldown (same user, any channel/guild)
@@ -5,7 +12,16 @@
  * - "channel": Per-channel cooldown (any user in same channel)
  * - "guild": Per-guild cooldown (any user in same guild, falls back to user if no guild)
  */
-export type CooldownType = "user" | "global" | "channel" | "guild";
+export type { CooldownType };
+
+/**
+ * How uses of a command are limited
+ * - "fixed": One use, then wait for the whole duration
+ * - "charges": Token bucket of `uses` charges, one charge comes back every
+ *   duration / uses seconds
+ * - "sliding": At most `uses` uses within any window of duration seconds
+ */
+export type CooldownStrategy = "fixed" | "charges" | "sliding";
 
 /**
  * Interaction context required for cooldown operations
@@ -16,32 +32,81 @@ export interface CooldownContext {
   guildId: string | null;
 }
 
-/**
- * Internal cooldown entry stored in the manager
- */
-interface CooldownEntry {
-  expiresAt: number;
-  userId?: string;
-
-  metadata?: {
-    commandName: string;
-    type: CooldownType;
-    startedAt: number;
-  };
-}
-
 /**
  * Configuration for command cooldowns
  */
-interface CooldownConfig {
-  /** Cooldown duration in seconds */
+export interface CooldownConfig {
+  /** Cooldown duration in seconds, the window for charges and sliding limits */
   duration: number;
   /** Type of cooldown scope */
   type: CooldownType;
+  /** How uses are limited (defaults to "fixed") */
+  strategy?: CooldownStrategy;
+  /** Uses allowed per duration, ignored for fixed cooldowns (defaults to 1) */
+  uses?: number;
+  /**
+   * Seconds after a released use (see CooldownReservation.release()) until
+   * its charge comes back, instead of the normal recovery time (defaults to 0)
+   */
+  failurePenalty?: number;
   /** Optional custom cooldown message to display to users */
   message?: string;
 }
 
+/**
+ * Cooldown state of a command for an interaction context
+ */
+export interface CooldownStatus {
+  /** Seconds until the command can be used, null if a charge is available */
+  remaining: number | null;
+  /** Charges (uses) currently available */
+  charges: number;
+  /** Charges available when the cooldown is fully recovered */
+  maxCharges: number;
+  /** Seconds until the next charge comes back, null if all are available */
+  nextCharge: number | null;
+}
+
+/**
+ * Charge claimed by CooldownManager.reserve()
+ *
+ * The charge counts as used from the moment it is reserved, so parallel
+ * interactions cannot use it while the command is still running. Confirm it
+ * with commit() once the command succeeded, or give it back with release()
+ * if it failed.
+ */
+export class CooldownReservation {
+  private settled = false;
+
+  /**
+   * @param blocked - Cooldown status if no charge was available, null if a
+   * charge was reserved
+   * @param refund - Gives the reserved charge back
+   */
+  constructor(
+    public readonly blocked: CooldownStatus | null,
+    private readonly refund: () => Promise<void>
+  ) {}
+
+  /**
+   * Confirms the reserved charge as used
+   */
+  public commit(): void {
+    this.settled = true;
+  }
+
+  /**
+   * Gives the reserved charge back, keeping the configured failure penalty
+   * Does nothing if the reservation was blocked, committed or already released
+   */
+  public async release(): Promise<void> {
+    if (this.blocked || this.settled) return;
+
+    this.settled = true;
+    await this.refund();
+  }
+}
+
 /**
  * Statistics about active cooldowns
  */
@@ -52,14 +117,88 @@ export interface CooldownStats {
   byType?: Record<CooldownType, number>;
 }
 
+/**
+ * Prefix of the names context menu cooldowns are kept under
+ *
+ * Slash command names and component custom ID prefixes cannot contain `:`,
+ * so a context menu never shares its cooldown with one of the same name.
+ */
+const CONTEXT_MENU_PREFIX = "ctx:";
+
+/**
+ * Gets the name the cooldown of a context menu command is kept under
+ *
+ * @param name - Name of the context menu command
+ * @returns Cooldown name, e.g. "ctx:View Cooldowns"
+ */
+export function getContextMenuCooldownName(name: string): string {
+  return `${CONTEXT_MENU_PREFIX}${name}`;
+}
+
+/**
+ * Formats the name a cooldown is kept under for display
+ *
+ * @example
+ * formatCooldownName("ping") // "/ping"
+ * formatCooldownName("ctx:View Cooldowns") // "View Cooldowns (context menu)"
+ */
+export function formatCooldownName(name: string): string {
+  return name.startsWith(CONTEXT_MENU_PREFIX)
+    ? `${name.slice(CONTEXT_MENU_PREFIX.length)} (context menu)`
+    : `/${name}`;
+}
+
 /**
  * Manages command cooldowns with support for multiple cooldown types
  *
  * Supports user-based, global, channel-based, and guild-based cooldowns.
- * Automatically cleans up expired cooldowns using setTimeout.
+ * Entries are kept in a CooldownStore, in memory unless another store is set
+ * with setStore() (e.g. PostgresCooldownStore to survive restarts).
  */
 export class CooldownManager {
-  private cooldowns = new Map<string, Map<string, CooldownEntry>>();
+  private commandConfigs = new Map<string, CooldownConfig>();
+
+  constructor(private store: CooldownStore = new MemoryCooldownStore()) {}
+
+  /**
+   * Registers the cooldown configuration of a command
+   * Used by moderation tools that only know the command name
+   *
+   * @param commandName - Name of the command
+   * @param cfg - Cooldown configuration of the command
+   */
+  public registerCommand(commandName: string, cfg: CooldownConfig): void {
+    this.commandConfigs.set(commandName, cfg);
+  }
+
+  /**
+   * Gets the registered cooldown configuration of a command
+   *
+   * @param commandName - Name of the command
+   * @returns Cooldown configuration, or undefined if none was registered
+   */
+  public getCommandConfig(commandName: string): CooldownConfig | undefined {
+    return this.commandConfigs.get(commandName);
+  }
+
+  /**
+   * Gets the names of all commands with a registered cooldown
+   *
+   * @returns Command names in alphabetical order
+   */
+  public getCommandNames(): string[] {
+    return [...this.commandConfigs.keys()].sort();
+  }
+
+  /**
+   * Replaces the store cooldowns are kept in
+   * Cooldowns of the previous store are not carried over
+   *
+   * @param store - New cooldown store
+   */
+  public setStore(store: CooldownStore): void {
+    this.store = store;
+  }
 
   /**
    * Generates a unique cooldown key based on command name and cooldown type
@@ -98,7 +237,155 @@ export class CooldownManager {
   }
 
   /**
-   * Checks if a command is currently on cooldown
+   * Gets the number of charges of a limit
+   */
+  private getMaxCharges(cfg: CooldownConfig): number {
+    if (!cfg.strategy || cfg.strategy === "fixed") return 1;
+    return Math.max(Math.floor(cfg.uses ?? 1), 1);
+  }
+
+  /**
+   * Computes the status of a cooldown entry at a point in time
+   *
+   * Fixed and charges limits keep the time all charges are back in expiresAt
+   * (every use pushes it back by duration / uses), so a fixed cooldown is a
+   * charges limit with a single charge. Sliding limits keep the uses of the
+   * current window.
+   *
+   * @param entry - Active cooldown entry, or null if there is none
+   * @param cfg - Cooldown configuration
+   * @param now - Point in time in ms since epoch
+   * @returns Cooldown status at that time
+   */
+  private getStatus(
+    entry: CooldownEntry | null,
+    cfg: CooldownConfig,
+    now: number
+  ): CooldownStatus {
+    const maxCharges = this.getMaxCharges(cfg);
+    const window = Math.round(cfg.duration * 1000);
+    let charges: number;
+    let nextCharge: number | null = null;
+
+    if (cfg.strategy === "sliding") {
+      const uses = entry?.uses.filter((use) => use > now - window) ?? [];
+      charges = Math.max(maxCharges - uses.length, 0);
+
+      if (uses.length > 0) {
+        // The use whose expiry brings the next charge back
+        nextCharge = uses[Math.max(uses.length - maxCharges, 0)] + window - now;
+      }
+    } else {
+      const interval = Math.ceil(window / maxCharges);
+      const backlog = Math.max((entry?.expiresAt ?? now) - now, 0);
+      const used = Math.ceil(backlog / interval);
+      charges = Math.max(maxCharges - used, 0);
+
+      if (backlog > 0) {
+        nextCharge = backlog - (Math.min(used, maxCharges) - 1) * interval;
+      }
+    }
+
+    return {
+      remaining: charges > 0 ? null : nextCharge! / 1000,
+      charges,
+      maxCharges,
+      nextCharge: nextCharge === null ? null : nextCharge / 1000,
+    };
+  }
+
+  /**
+   * Records a use in a cooldown entry
+   *
+   * @param entry - Active cooldown entry, or null if there is none
+   * @param commandName - Name of the command
+   * @param cfg - Cooldown configuration
+   * @param interaction - Interaction context
+   * @param now - Time of the use in ms since epoch
+   * @returns Entry to store
+   */
+  private addUse(
+    entry: CooldownEntry | null,
+    commandName: string,
+    cfg: CooldownConfig,
+    interaction: CooldownContext,
+    now: number
+  ): CooldownEntry {
+    const window = Math.round(cfg.duration * 1000);
+    const base = {
+      key: this.getKey(commandName, cfg.type, interaction),
+      commandName,
+      type: cfg.type,
+      userId: interaction.userId,
+    };
+
+    if (cfg.strategy === "sliding") {
+      const uses = [
+        ...(entry?.uses.filter((use) => use > now - window) ?? []),
+        now,
+      ];
+      return { ...base, startedAt: uses[0], expiresAt: now + window, uses };
+    }
+
+    const interval = Math.ceil(window / this.getMaxCharges(cfg));
+    return {
+      ...base,
+      startedAt: entry?.startedAt ?? now,
+      expiresAt: Math.max(entry?.expiresAt ?? now, now) + interval,
+      uses: [],
+    };
+  }
+
+  /**
+   * Takes a use back out of a cooldown entry, keeping the failure penalty
+   *
+   * The charge then comes back failurePenalty seconds after the use instead
+   * of after the normal recovery time.
+   *
+   * @param entry - Active cooldown entry, or null if there is none
+   * @param cfg - Cooldown configuration
+   * @param usedAt - Time of the use in ms since epoch
+   * @returns Entry to store, or null if there is nothing to take back
+   */
+  private removeUse(
+    entry: CooldownEntry | null,
+    cfg: CooldownConfig,
+    usedAt: number
+  ): CooldownEntry | null {
+    if (!entry) return null;
+
+    const window = Math.round(cfg.duration * 1000);
+    const penalty = Math.max(Math.round((cfg.failurePenalty ?? 0) * 1000), 0);
+
+    if (cfg.strategy === "sliding") {
+      const index = entry.uses.indexOf(usedAt);
+      if (index === -1) return null;
+
+      const uses = entry.uses.filter((_, i) => i !== index);
+      if (penalty > 0) {
+        // A use that leaves the window penalty ms after the original one
+        uses.push(usedAt - window + penalty);
+        uses.sort((a, b) => a - b);
+      }
+
+      return {
+        ...entry,
+        startedAt: uses[0] ?? entry.startedAt,
+        expiresAt: uses.length > 0 ? uses[uses.length - 1] + window : usedAt,
+        uses,
+      };
+    }
+
+    const interval = Math.ceil(window / this.getMaxCharges(cfg));
+    const refund = Math.max(interval - penalty, 0);
+
+    return refund > 0
+      ? { ...entry, expiresAt: entry.expiresAt - refund }
+      : null;
+  }
+
+  /**
+   * Checks the cooldown state of a command
    *
    * @param commandName - Name of the command to check
    * @param cfg - Cooldown configuration
@@ -106,82 +393,195 @@ export class CooldownManager {
    * @param interaction.userId - Discord user ID to check for
    * @param interaction.channelId - Discord channel ID to check for
    * @param interaction.guildId - Discord guild ID to check for
-   * @returns Remaining cooldown time in seconds, or null if not on cooldown
+   * @returns Remaining time, remaining charges and time until the next charge
    *
    * @example
-   * const remaining = check("ping", config, interaction);
-   * if (remaining !== null) {
-   *   console.log(`Wait ${remaining} seconds`);
+   * const status = await check("ping", config, interaction);
+   * if (status.remaining !== null) {
+   *   console.log(`Wait ${status.remaining} seconds`);
+   * } else {
+   *   console.log(`${status.charges}/${status.maxCharges} uses left`);
    * }
    */
-  public check(
+  public async check(
     commandName: string,
     cfg: CooldownConfig,
     interaction: CooldownContext
-  ): number | null {
+  ): Promise<CooldownStatus> {
     const key = this.getKey(commandName, cfg.type, interaction);
+    return this.getStatus(await this.store.get(key), cfg, Date.now());
+  }
 
-    if (!this.cooldowns.has(commandName)) {
-      this.cooldowns.set(commandName, new Map());
-    }
+  /**
+   * Records a use of a command, even if no charge is available
+   *
+   * For fixed cooldowns this starts a cooldown that automatically expires
+   * after the configured duration.
+   *
+   * @param commandName - Name of the command to set cooldown for
+   * @param cfg - Cooldown configuration
+   * @param interaction - Interaction context
+   * @param interaction.userId - Discord user ID to set the cooldown for
+   * @param interaction.channelId - Discord channel ID to set the cooldown for
+   * @param interaction.guildId - Discord guild ID to set cooldown in
+   */
+  public async set(
+    commandName: string,
+    cfg: CooldownConfig,
+    interaction: CooldownContext
+  ): Promise<void> {
+    await this.store.update(
+      this.getKey(commandName, cfg.type, interaction),
+      (entry) => this.addUse(entry, commandName, cfg, interaction, Date.now())
+    );
+  }
 
-    const now = Date.now();
-    const timestamps = this.cooldowns.get(commandName)!;
+  /**
+   * Checks a cooldown and reserves a charge in one atomic step
+   *
+   * Unlike check() followed by set(), two interactions racing for the last
+   * charge (even in different processes when using SharedCooldownStore)
+   * cannot both get through. The charge is used from now on, confirm it with
+   * commit() or give it back with release() once the command has finished.
+   *
+   * @param commandName - Name of the command
+   * @param cfg - Cooldown configuration
+   * @param interaction - Interaction context
+   * @returns Reservation, with the cooldown status in blocked if no charge
+   * was available
+   *
+   * @example
+   * const reservation = await cooldownManager.reserve("daily", config, ctx);
+   * if (reservation.blocked) return replyOnCooldown(reservation.blocked);
+   *
+   * try {
+   *   await runDaily();
+   *   reservation.commit();
+   * } catch (error) {
+   *   await reservation.release();
+   * }
+   */
+  public async reserve(
+    commandName: string,
+    cfg: CooldownConfig,
+    interaction: CooldownContext
+  ): Promise<CooldownReservation> {
+    const key = this.getKey(commandName, cfg.type, interaction);
+    let blocked: CooldownStatus | null = null;
+    let usedAt = 0;
 
-    if (timestamps.has(key)) {
-      const entry = timestamps.get(key)!;
+    await this.store.update(key, (entry) => {
+      const now = Date.now();
+      const status = this.getStatus(entry, cfg, now);
 
-      if (now < entry.expiresAt) {
-        const remaining = (entry.expiresAt - now) / 1000;
-        return remaining;
+      if (status.remaining !== null) {
+        blocked = status;
+        return null;
       }
 
-      timestamps.delete(key);
-    }
+      usedAt = now;
+      return this.addUse(entry, commandName, cfg, interaction, now);
+    });
 
-    return null;
+    return new CooldownReservation(blocked, () =>
+      this.store.update(key, (entry) => this.removeUse(entry, cfg, usedAt))
+    );
   }
 
   /**
-   * Sets a cooldown for a command
+   * Checks a cooldown and uses a charge in one atomic step
    *
-   * Creates a cooldown entry that will automatically expire after the configured duration.
-   * Uses setTimeout to clean up the entry when it expires.
+   * Same as reserve() followed by commit().
    *
-   * @param commandName - Name of the command to set cooldown for
+   * @param commandName - Name of the command
    * @param cfg - Cooldown configuration
    * @param interaction - Interaction context
-   * @param interaction.userId - Discord user ID to set the cooldown for
-   * @param interaction.channelId - Discord channel ID to set the cooldown for
-   * @param interaction.guildId - Discord guild ID to set cooldown in
+   * @returns Cooldown status if no charge is available, or null if a charge
+   * was used
+   *
+   * @example
+   * const status = await cooldownManager.checkAndSet("daily", config, ctx);
+   * if (status !== null) return replyOnCooldown(status.remaining);
    */
-  public set(
+  public async checkAndSet(
     commandName: string,
     cfg: CooldownConfig,
     interaction: CooldownContext
-  ): void {
-    const key = this.getKey(commandName, cfg.type, interaction);
-
-    if (!this.cooldowns.has(commandName)) {
-      this.cooldowns.set(commandName, new Map());
-    }
+  ): Promise<CooldownStatus | null> {
+    const reservation = await this.reserve(commandName, cfg, interaction);
+    reservation.commit();
+    return reservation.blocked;
+  }
 
+  /**
+   * Puts a context on cooldown for a given time, using up all charges
+   *
+   * Replaces the current cooldown. Once the time is over, charges come back
+   * as configured.
+   *
+   * @param commandName - Name of the command
+   * @param cfg - Cooldown configuration
+   * @param interaction - Interaction context
+   * @param seconds - Time until the command can be used again
+   */
+  public async block(
+    commandName: string,
+    cfg: CooldownConfig,
+    interaction: CooldownContext,
+    seconds: number
+  ): Promise<void> {
     const now = Date.now();
-    const timestamps = this.cooldowns.get(commandName)!;
-    const expiresAt = now + cfg.duration * 1000;
-
-    timestamps.set(key, {
-      expiresAt,
+    const until = now + Math.round(seconds * 1000);
+    const window = Math.round(cfg.duration * 1000);
+    const maxCharges = this.getMaxCharges(cfg);
+    const sliding = cfg.strategy === "sliding";
+    const interval = Math.ceil(window / maxCharges);
+
+    await this.store.set({
+      key: this.getKey(commandName, cfg.type, interaction),
+      commandName,
+      type: cfg.type,
       userId: interaction.userId,
+      startedAt: now,
+      // Every charge is back at until, or the first one is for charges limits
+      expiresAt: sliding ? until : until + (maxCharges - 1) * interval,
+      uses: sliding ? Array(maxCharges).fill(until - window) : [],
     });
+  }
 
-    setTimeout(() => {
-      timestamps.delete(key);
-
-      if (timestamps.size === 0) {
-        this.cooldowns.delete(commandName);
+  /**
+   * Lengthens an active cooldown
+   *
+   * @param commandName - Name of the command
+   * @param cfg - Cooldown configuration
+   * @param interaction - Interaction context
+   * @param seconds - Time to add
+   * @returns True if an active cooldown was extended, false if none existed
+   */
+  public async extend(
+    commandName: string,
+    cfg: CooldownConfig,
+    interaction: CooldownContext,
+    seconds: number
+  ): Promise<boolean> {
+    const extra = Math.round(seconds * 1000);
+    let extended = false;
+
+    await this.store.update(
+      this.getKey(commandName, cfg.type, interaction),
+      (entry) => {
+        if (!entry) return null;
+
+        extended = true;
+        return {
+          ...entry,
+          expiresAt: entry.expiresAt + extra,
+          uses: entry.uses.map((use) => use + extra),
+        };
       }
-    }, cfg.duration * 1000);
+    );
+
+    return extended;
   }
 
   /**
@@ -195,20 +595,12 @@ export class CooldownManager {
    * @param interaction.guildId - Discord guild ID to reset the cooldowns in
    * @returns True if a cooldown was reset, false if none existed
    */
-  public reset(
+  public async reset(
     commandName: string,
     type: CooldownType,
     interaction: CooldownContext
-  ): boolean {
-    const key = this.getKey(commandName, type, interaction);
-    const timestamps = this.cooldowns.get(commandName);
-
-    if (timestamps && timestamps.has(key)) {
-      timestamps.delete(key);
-      return true;
-    }
-
-    return false;
+  ): Promise<boolean> {
+    return this.store.delete(this.getKey(commandName, type, interaction));
   }
 
   /**
@@ -217,8 +609,8 @@ export class CooldownManager {
    * @param commandName - Name of the command to reset
    * @returns True if the command had cooldowns to reset, false otherwise
    */
-  public resetCommand(commandName: string): boolean {
-    return this.cooldowns.delete(commandName);
+  public async resetCommand(commandName: string): Promise<boolean> {
+    return (await this.store.deleteByCommand(commandName)) > 0;
   }
 
   /**
@@ -227,29 +619,15 @@ export class CooldownManager {
    * @param userId - Discord user ID
    * @returns Number of cooldowns that were reset
    */
-  public resetUser(userId: string): number {
-    let count = 0;
-
-    this.cooldowns.forEach((timestamps, commandName) => {
-      timestamps.forEach((entry, key) => {
-        if (entry.userId === userId || key.includes(`:user:${userId}`)) {
-          timestamps.delete(key);
-          count++;
-        }
-      });
-
-      if (timestamps.size === 0) {
-        this.cooldowns.delete(commandName);
-      }
-    });
-
-    return count;
+  public async resetUser(userId: string): Promise<number> {
+    return this.store.deleteByUser(userId);
   }
 
   /**
-   * Gets remaining cooldown time without affecting the cooldown state
+   * Gets the time until a cooldown has fully expired without affecting it
    *
-   * Useful for debugging or admin commands to check cooldown status.
+   * Useful for debugging or admin commands to check cooldown status. For
+   * charges and sliding limits this is the time until all charges are back.
    *
    * @param commandName - Name of the command
    * @param type - Type of cooldown scope
@@ -259,21 +637,59 @@ export class CooldownManager {
    * @param interaction.guildId - Discord guild ID to get remaining cooldown in
    * @returns Remaining cooldown time in seconds, or null if not on cooldown
    */
-  public getRemaining(
+  public async getRemaining(
     commandName: string,
     type: CooldownType,
     interaction: CooldownContext
-  ): number | null {
-    return this.check(commandName, { duration: 0, type }, interaction);
+  ): Promise<number | null> {
+    const key = this.getKey(commandName, type, interaction);
+    const entry = await this.store.get(key);
+
+    if (!entry) return null;
+
+    const remaining = (entry.expiresAt - Date.now()) / 1000;
+    return remaining > 0 ? remaining : null;
+  }
+
+  /**
+   * Gets all active cooldowns grouped by command (for debugging/inspection)
+   *
+   * @returns Map of command names to their cooldown entries by key
+   */
+  public async getAllCooldowns(): Promise<
+    Map<string, Map<string, CooldownEntry>>
+  > {
+    const cooldowns = new Map<string, Map<string, CooldownEntry>>();
+
+    for (const entry of await this.store.list()) {
+      if (!cooldowns.has(entry.commandName)) {
+        cooldowns.set(entry.commandName, new Map());
+      }
+      cooldowns.get(entry.commandName)!.set(entry.key, entry);
+    }
+
+    return cooldowns;
   }
 
   /**
-   * Gets the internal cooldowns map (for debugging/inspection)
+   * Gets the active cooldowns started by a user
    *
-   * @returns Map of command names to their cooldown entries
+   * @param userId - Discord user ID
+   * @param commandName - Only return cooldowns of this command
+   * @returns Cooldown entries, soonest expiring first
    */
-  public getAllCooldowns(): Map<string, Map<string, CooldownEntry>> {
-    return this.cooldowns;
+  public async getUserCooldowns(
+    userId: string,
+    commandName?: string | null
+  ): Promise<CooldownEntry[]> {
+    return [...(await this.getAllCooldowns()).values()]
+      .flatMap((cooldowns) => [...cooldowns.values()])
+      .filter(
+        (entry) =>
+          entry.userId === userId &&
+          (!commandName || entry.commandName === commandName)
+      )
+      .sort((a, b) => a.expiresAt - b.expiresAt);
   }
 
   /**
@@ -285,14 +701,15 @@ export class CooldownManager {
    *   - byCommand: Object mapping command names to their cooldown counts
    *
    * @example
-   * const stats = getStats();
+   * const stats = await getStats();
    * logger.info(`${stats.totalCooldowns} active cooldowns across ${stats.totalCommands} commands`);
    */
-  public getStats() {
+  public async getStats(): Promise<CooldownStats> {
+    const cooldowns = await this.getAllCooldowns();
     let totalCooldowns = 0;
     const commandStats: Record<string, number> = {};
 
-    this.cooldowns.forEach((timestamps, commandName) => {
+    cooldowns.forEach((timestamps, commandName) => {
       const count = timestamps.size;
       totalCooldowns += count;
       commandStats[commandName] = count;
@@ -300,7 +717,7 @@ export class CooldownManager {
 
     const stats: CooldownStats = {
       totalCooldowns,
-      totalCommands: this.cooldowns.size,
+      totalCommands: cooldowns.size,
       byCommand: commandStats,
     };
 
@@ -0,0 +1,182 @@
+import type { CooldownType } from "@/db/types/cooldowns.types";
+
+/**
+ * Cooldown entry kept by a cooldown store
+ */
+export interface CooldownEntry {
+  /** Cooldown key, see CooldownManager.getKey() */
+  key: string;
+  commandName: string;
+  type: CooldownType;
+  /** Discord user ID that triggered the cooldown */
+  userId: string;
+  /** Start of the cooldown in ms since epoch */
+  startedAt: number;
+  /** Expiry of the cooldown in ms since epoch */
+  expiresAt: number;
+  /**
+   * Uses (ms since epoch) still counting towards a sliding-window limit,
+   * oldest first. Empty for other limits.
+   */
+  uses: number[];
+}
+
+/**
+ * Storage backend of the cooldown manager
+ *
+ * Stores only have to return entries that have not expired yet, how and when
+ * expired entries are removed is up to the implementation.
+ */
+export interface CooldownStore {
+  /**
+   * Gets an active cooldown
+   *
+   * @param key - Cooldown key
+   * @returns Promise resolving to the entry, or null if none is active
+   */
+  get(key: string): Promise<CooldownEntry | null>;
+
+  /**
+   * Creates or replaces a cooldown
+   *
+   * @param entry - Cooldown entry
+   */
+  set(entry: CooldownEntry): Promise<void>;
+
+  /**
+   * Atomically reads and replaces a cooldown
+   *
+   * Unlike get() followed by set(), concurrent calls for the same key never
+   * interleave, each one sees the entry stored by the previous one.
+   *
+   * @param key - Cooldown key
+   * @param update - Receives the active entry or null, returns the entry to
+   * store or null to keep the current one
+   */
+  update(
+    key: string,
+    update: (entry: CooldownEntry | null) => CooldownEntry | null
+  ): Promise<void>;
+
+  /**
+   * Removes a cooldown
+   *
+   * @param key - Cooldown key
+   * @returns Promise resolving to true if an active cooldown was removed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Removes all cooldowns of a command
+   *
+   * @param commandName - Command name
+   * @returns Promise resolving to the number of removed cooldowns
+   */
+  deleteByCommand(commandName: string): Promise<number>;
+
+  /**
+   * Removes all cooldowns triggered by a user
+   *
+   * @param userId - Discord user ID
+   * @returns Promise resolving to the number of removed cooldowns
+   */
+  deleteByUser(userId: string): Promise<number>;
+
+  /**
+   * Lists all active cooldowns
+   *
+   * @returns Promise resolving to the active entries
+   */
+  list(): Promise<CooldownEntry[]>;
+}
+
+/**
+ * In-memory cooldown store, the default store of the cooldown manager
+ *
+ * Entries are lost when the process exits. Each entry is removed by a timer
+ * when it expires.
+ */
+export class MemoryCooldownStore implements CooldownStore {
+  private entries = new Map<string, CooldownEntry>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Removes an entry and its expiry timer
+   */
+  private remove(key: string): boolean {
+    clearTimeout(this.timers.get(key));
+    this.timers.delete(key);
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Removes all entries matching a predicate
+   */
+  private removeWhere(predicate: (entry: CooldownEntry) => boolean): number {
+    let count = 0;
+
+    for (const entry of [...this.entries.values()]) {
+      if (predicate(entry) && this.remove(entry.key)) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  public async get(key: string): Promise<CooldownEntry | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  public async set(entry: CooldownEntry): Promise<void> {
+    this.remove(entry.key);
+    this.entries.set(entry.key, entry);
+
+    const timer = setTimeout(
+      () => this.remove(entry.key),
+      Math.max(entry.expiresAt - Date.now(), 0)
+    );
+    // Pending cooldowns must not keep the process alive
+    timer.unref();
+    this.timers.set(entry.key, timer);
+  }
+
+  public async update(
+    key: string,
+    update: (entry: CooldownEntry | null) => CooldownEntry | null
+  ): Promise<void> {
+    // No await between the lookup and the write, so no other call can interleave
+    const existing = this.entries.get(key);
+    const entry = update(
+      existing && existing.expiresAt > Date.now() ? existing : null
+    );
+
+    if (entry) await this.set(entry);
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  public async deleteByCommand(commandName: string): Promise<number> {
+    return this.removeWhere((entry) => entry.commandName === commandName);
+  }
+
+  public async deleteByUser(userId: string): Promise<number> {
+    return this.removeWhere((entry) => entry.userId === userId);
+  }
+
+  public async list(): Promise<CooldownEntry[]> {
+    const now = Date.now();
+    return [...this.entries.values()].filter((entry) => entry.expiresAt > now);
+  }
+}
@@ -1,2 +1,48 @@
-export type { CooldownType } from "./cooldown-manager";
-export { cooldownManager, CooldownManager } from "./cooldown-manager";
+import config from "@/config";
+import { cooldownQueries } from "@/db/queries/cooldowns.queries";
+import { cooldownManager } from "./cooldown-manager";
+import { PostgresCooldownStore } from "./postgres-cooldown-store";
+import { SharedCooldownStore } from "./shared-cooldown-store";
+
+export type {
+  CooldownType,
+  CooldownStats,
+  CooldownStatus,
+  CooldownStrategy,
+} from "./cooldown-manager";
+export {
+  cooldownManager,
+  CooldownManager,
+  CooldownReservation,
+  formatCooldownName,
+  getContextMenuCooldownName,
+} from "./cooldown-manager";
+export type { CooldownEntry, CooldownStore } from "./cooldown-store";
+export { MemoryCooldownStore } from "./cooldown-store";
+export { PostgresCooldownStore } from "./postgres-cooldown-store";
+export { SharedCooldownStore } from "./shared-cooldown-store";
+
+/**
+ * Sets up the cooldown store configured in config.discord.cooldowns
+ *
+ * For the postgres store, reloads the cooldowns that were active when the
+ * process stopped and starts sweeping expired rows. The shared store reads
+ * the table directly and only needs the sweeper. The in-memory default needs
+ * no setup.
+ *
+ * @returns Promise resolving once the store is ready
+ */
+export async function initCooldownStore(): Promise<void> {
+  const { store, sweepIntervalSeconds } = config.discord.cooldowns;
+
+  if (store === "memory") return;
+
+  const postgresStore =
+    store === "shared"
+      ? new SharedCooldownStore(cooldownQueries)
+      : new PostgresCooldownStore(cooldownQueries);
+  await postgresStore.load();
+  postgresStore.startSweeper(sweepIntervalSeconds * 1000);
+
+  cooldownManager.setStore(postgresStore);
+}
@@ -0,0 +1,185 @@
+import type { CooldownQueries } from "@/db/queries/cooldowns.queries";
+import type { Cooldown, CooldownCreate } from "@/db/types/cooldowns.types";
+import {
+  MemoryCooldownStore,
+  type CooldownEntry,
+  type CooldownStore,
+} from "./cooldown-store";
+
+/**
+ * Converts a cooldowns row into a store entry
+ */
+export function toEntry(cooldown: Cooldown): CooldownEntry {
+  return {
+    key: cooldown.key,
+    commandName: cooldown.commandName,
+    type: cooldown.cooldownType,
+    userId: cooldown.userId,
+    startedAt: cooldown.startedAt.getTime(),
+    expiresAt: cooldown.expiresAt.getTime(),
+    uses: cooldown.uses.map((use) => use.getTime()),
+  };
+}
+
+/**
+ * Converts a store entry into a cooldowns row
+ */
+export function toCreate(entry: CooldownEntry): CooldownCreate {
+  return {
+    key: entry.key,
+    commandName: entry.commandName,
+    cooldownType: entry.type,
+    userId: entry.userId,
+    startedAt: new Date(entry.startedAt),
+    expiresAt: new Date(entry.expiresAt),
+    uses: entry.uses.map((use) => new Date(use)),
+  };
+}
+
+/**
+ * Cooldown store persisted in the cooldowns table
+ *
+ * Reads are served from an in-memory cache, writes go to both the cache and
+ * the database. Call load() on startup to restore the cooldowns that were
+ * active when the process stopped, and startSweeper() to periodically delete
+ * expired rows.
+ *
+ * Failing writes are logged and do not fail the command, the cooldown then
+ * only lasts until the next restart.
+ *
+ * The cache is local to the process, use SharedCooldownStore when several
+ * processes must see the same cooldowns.
+ */
+export class PostgresCooldownStore implements CooldownStore {
+  private cache = new MemoryCooldownStore();
+  private sweeper: NodeJS.Timeout | null = null;
+
+  constructor(protected queries: CooldownQueries) {}
+
+  /**
+   * Loads the active cooldowns from the database into the cache
+   *
+   * @returns Promise resolving to the number of loaded cooldowns
+   */
+  public async load(): Promise<number> {
+    const cooldowns = await this.queries.findActive();
+
+    for (const cooldown of cooldowns) {
+      await this.cache.set(toEntry(cooldown));
+    }
+
+    logger.info(`Loaded ${cooldowns.length} active cooldown(s)`);
+    return cooldowns.length;
+  }
+
+  /**
+   * Deletes expired cooldowns from the database
+   *
+   * @returns Promise resolving to the number of deleted rows
+   */
+  public async sweep(): Promise<number> {
+    return this.queries.deleteExpired();
+  }
+
+  /**
+   * Starts deleting expired cooldowns at a fixed interval
+   *
+   * @param intervalMs - Time between sweeps in milliseconds
+   */
+  public startSweeper(intervalMs: number): void {
+    this.stopSweeper();
+
+    this.sweeper = setInterval(() => {
+      this.sweep().catch((error) =>
+        logger.error("Failed to sweep expired cooldowns:", error)
+      );
+    }, intervalMs);
+    this.sweeper.unref();
+  }
+
+  /**
+   * Stops the periodic sweep started by startSweeper()
+   */
+  public stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+
+  /**
+   * Runs a database write, logging instead of throwing on failure
+   */
+  protected async persist(
+    description: string,
+    write: () => Promise<unknown>
+  ): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      logger.error(`Failed to ${description}:`, error);
+    }
+  }
+
+  public async get(key: string): Promise<CooldownEntry | null> {
+    return this.cache.get(key);
+  }
+
+  public async set(entry: CooldownEntry): Promise<void> {
+    await this.cache.set(entry);
+
+    await this.persist(`persist cooldown ${entry.key}`, () =>
+      this.queries.upsert(toCreate(entry), "key")
+    );
+  }
+
+  public async update(
+    key: string,
+    update: (entry: CooldownEntry | null) => CooldownEntry | null
+  ): Promise<void> {
+    let stored: CooldownEntry | null = null;
+
+    await this.cache.update(key, (entry) => (stored = update(entry)));
+
+    if (stored) {
+      const entry: CooldownEntry = stored;
+      await this.persist(`persist cooldown ${key}`, () =>
+        this.queries.upsert(toCreate(entry), "key")
+      );
+    }
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    const deleted = await this.cache.delete(key);
+
+    await this.persist(`delete cooldown ${key}`, () =>
+      this.queries.deleteAll({ key })
+    );
+
+    return deleted;
+  }
+
+  public async deleteByCommand(commandName: string): Promise<number> {
+    const count = await this.cache.deleteByCommand(commandName);
+
+    await this.persist(`delete cooldowns of ${commandName}`, () =>
+      this.queries.deleteAll({ commandName })
+    );
+
+    return count;
+  }
+
+  public async deleteByUser(userId: string): Promise<number> {
+    const count = await this.cache.deleteByUser(userId);
+
+    await this.persist(`delete cooldowns of user ${userId}`, () =>
+      this.queries.deleteAll({ userId })
+    );
+
+    return count;
+  }
+
+  public async list(): Promise<CooldownEntry[]> {
+    return this.cache.list();
+  }
+}
@@ -0,0 +1,68 @@
+import type { CooldownEntry } from "./cooldown-store";
+import {
+  PostgresCooldownStore,
+  toCreate,
+  toEntry,
+} from "./postgres-cooldown-store";
+
+/**
+ * Cooldown store shared by several bot processes (shards or replicas)
+ *
+ * Every operation goes to the cooldowns table instead of a process-local
+ * cache, so a global or guild cooldown set by one process is seen by all of
+ * them. update() locks the key in the database, see CooldownQueries.modify().
+ *
+ * Unlike PostgresCooldownStore this store fails closed: database errors are
+ * thrown to the caller, so a command is refused rather than run without its
+ * cooldown being enforced across processes.
+ */
+export class SharedCooldownStore extends PostgresCooldownStore {
+  /**
+   * Nothing to load, reads always go to the database
+   *
+   * @returns Promise resolving to 0
+   */
+  public override async load(): Promise<number> {
+    return 0;
+  }
+
+  public override async get(key: string): Promise<CooldownEntry | null> {
+    const cooldown = await this.queries.findActiveByKey(key);
+    return cooldown ? toEntry(cooldown) : null;
+  }
+
+  public override async set(entry: CooldownEntry): Promise<void> {
+    await this.queries.upsert(toCreate(entry), "key");
+  }
+
+  public override async update(
+    key: string,
+    update: (entry: CooldownEntry | null) => CooldownEntry | null
+  ): Promise<void> {
+    await this.queries.modify(key, (cooldown) => {
+      const entry = update(cooldown ? toEntry(cooldown) : null);
+      return entry ? toCreate(entry) : null;
+    });
+  }
+
+  public override async delete(key: string): Promise<boolean> {
+    return (
+      (await this.queries.deleteAll({ key, expiresAt: { gt: new Date() } })) > 0
+    );
+  }
+
+  public override async deleteByCommand(commandName: string): Promise<number> {
+    return this.queries.deleteAll({
+      commandName,
+      expiresAt: { gt: new Date() },
+    });
+  }
+
+  public override async deleteByUser(userId: string): Promise<number> {
+    return this.queries.deleteAll({ userId, expiresAt: { gt: new Date() } });
+  }
+
+  public override async list(): Promise<CooldownEntry[]> {
+    return (await this.queries.findActive()).map(toEntry);
+  }
+}
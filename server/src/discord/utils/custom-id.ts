@@ -0,0 +1,89 @@
+/**
+ * Discord limits custom IDs of components to 100 characters
+ */
+const MAX_CUSTOM_ID_LENGTH = 100;
+
+/**
+ * Payload encoded in a custom ID, a string value per field
+ */
+export type CustomIdPayload = Record<string, string>;
+
+/**
+ * Encodes typed payloads into component custom IDs and back
+ *
+ * Custom IDs look like `<prefix>:<field1>:<field2>...`. The prefix routes the
+ * interaction to its component handler, the fields are encoded in the order
+ * given to the constructor. Values are URI encoded, so they may contain `:`.
+ *
+ * @example
+ * const customId = new CustomId<{ action: string; categoryKey: string }>(
+ *   "ticket-panel",
+ *   ["action", "categoryKey"]
+ * );
+ * customId.encode({ action: "open", categoryKey: "support" });
+ * // "ticket-panel:open:support"
+ */
+export class CustomId<TPayload extends CustomIdPayload> {
+  constructor(
+    public readonly prefix: string,
+    private readonly fields: readonly (keyof TPayload & string)[]
+  ) {}
+
+  /**
+   * Gets the prefix of a custom ID
+   *
+   * @param customId - Component custom ID
+   * @returns Prefix the custom ID is routed by
+   */
+  public static getPrefix(customId: string): string {
+    return customId.split(":", 1)[0];
+  }
+
+  /**
+   * Encodes a payload into a custom ID
+   *
+   * @param payload - Payload to encode
+   * @returns Custom ID
+   * @throws Error if the custom ID is longer than Discord allows
+   */
+  public encode(payload: TPayload): string {
+    const customId = [
+      this.prefix,
+      ...this.fields.map((field) => encodeURIComponent(payload[field])),
+    ].join(":");
+
+    if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+      throw new Error(
+        `Custom ID exceeds ${MAX_CUSTOM_ID_LENGTH} characters: ${customId}`
+      );
+    }
+
+    return customId;
+  }
+
+  /**
+   * Decodes a custom ID created by encode()
+   *
+   * @param customId - Component custom ID
+   * @returns Payload, or null if the custom ID has another prefix or does not
+   * match the fields
+   */
+  public decode(customId: string): TPayload | null {
+    const [prefix, ...values] = customId.split(":");
+
+    if (prefix !== this.prefix || values.length !== this.fields.length) {
+      return null;
+    }
+
+    try {
+      return Object.fromEntries(
+        this.fields.map((field, index) => [
+          field,
+          decodeURIComponent(values[index]),
+        ])
+      ) as TPayload;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  CommandInteraction,
+  ComponentType,
+  EmbedBuilder,
+  MessageFlags,
+} from "discord.js";
+import type { Page } from "@/db/utils/pagination";
+import { EmbedPresets } from "../embeds";
+import { CustomId } from "./custom-id";
+
+/**
+ * Custom ID prefix of paginator buttons
+ */
+export const PAGINATOR_PREFIX = "paginator";
+
+/**
+ * Custom IDs of paginator buttons, `paginator:<action>`
+ * Clicks are answered by the paginator's collector while it runs, the
+ * component router only answers clicks on expired paginators
+ */
+export const paginatorCustomId = new CustomId<{
+  action: "prev" | "page" | "next";
+}>(PAGINATOR_PREFIX, ["action"]);
+
+/**
+ * IDs of the messages whose buttons are answered by a running paginator
+ */
+const activeMessageIds = new Set<string>();
+
+/**
+ * Checks if the buttons of a message are answered by a running paginator
+ * Buttons of paginators that timed out or ran before a restart are not
+ *
+ * @param messageId - ID of the message with the paginator buttons
+ * @returns True if a paginator collector handles clicks on the message
+ */
+export function isPaginatorActive(messageId: string): boolean {
+  return activeMessageIds.has(messageId);
+}
+
+/**
+ * Options for an embed paginator
+ */
+export interface EmbedPaginatorOptions<T> {
+  /** Fetches the page starting at a cursor (null for the first page) */
+  fetchPage: (cursor: string | null) => Promise<Page<T>>;
+  /** Renders the items of a page, pageIndex starts at 0 */
+  render: (items: T[], pageIndex: number) => EmbedBuilder;
+  /** Embed shown when the first page is empty */
+  empty?: EmbedBuilder;
+  /** Time without interaction after which the buttons are removed (default 2 minutes) */
+  idleMs?: number;
+}
+
+/**
+ * Creates a fetchPage function that pages through an in-memory list
+ * The cursor is the offset of the first item of the page
+ *
+ * @param items - Items to page through
+ * @param pageSize - Items per page (default 10)
+ * @returns fetchPage function for EmbedPaginatorOptions
+ *
+ * @example
+ * await new EmbedPaginator({
+ *   fetchPage: pageArray(entries),
+ *   render: (entries, page) => renderEntries(entries, page),
+ * }).start(interaction);
+ */
+export function pageArray<T>(
+  items: T[],
+  pageSize = 10
+): (cursor: string | null) => Promise<Page<T>> {
+  return async (cursor) => {
+    const offset = cursor ? Number(cursor) : 0;
+    const hasMore = offset + pageSize < items.length;
+
+    return {
+      items: items.slice(offset, offset + pageSize),
+      nextCursor: hasMore ? String(offset + pageSize) : null,
+      hasMore,
+    };
+  };
+}
+
+/**
+ * Browses cursor-paginated data in a single message with Previous/Next buttons
+ *
+ * Cursors of visited pages are remembered so Previous can go back without
+ * offset queries. Only the user who ran the command can turn the pages.
+ *
+ * @example
+ * await interaction.deferReply();
+ * await new EmbedPaginator({
+ *   fetchPage: (cursor) => ticketQueries.paginate({ cursor, limit: 10 }),
+ *   render: (tickets, page) =>
+ *     EmbedPresets.tickets.history(userId, tickets, page).build(),
+ * }).start(interaction);
+ */
+export class EmbedPaginator<T> {
+  private cursors: (string | null)[] = [null];
+  private pageIndex = 0;
+  private page: Page<T> | null = null;
+
+  constructor(private options: EmbedPaginatorOptions<T>) {}
+
+  /**
+   * Builds the navigation buttons for the current page
+   */
+  private buildComponents(): ActionRowBuilder<ButtonBuilder>[] {
+    return [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(paginatorCustomId.encode({ action: "prev" }))
+          .setLabel("Previous")
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(this.pageIndex === 0),
+        new ButtonBuilder()
+          .setCustomId(paginatorCustomId.encode({ action: "page" }))
+          .setLabel(`Page ${this.pageIndex + 1}`)
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(true),
+        new ButtonBuilder()
+          .setCustomId(paginatorCustomId.encode({ action: "next" }))
+          .setLabel("Next")
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(!this.page?.hasMore)
+      ),
+    ];
+  }
+
+  /**
+   * Loads the page at pageIndex, remembering the cursor of the following page
+   */
+  private async load(): Promise<Page<T>> {
+    const page = await this.options.fetchPage(this.cursors[this.pageIndex]);
+
+    if (page.nextCursor) {
+      this.cursors[this.pageIndex + 1] = page.nextCursor;
+    }
+
+    this.page = page;
+    return page;
+  }
+
+  /**
+   * Builds the message payload for the current page
+   */
+  private buildMessage(page: Page<T>) {
+    return {
+      embeds: [this.options.render(page.items, this.pageIndex)],
+      components: this.buildComponents(),
+    };
+  }
+
+  /**
+   * Shows the first page and starts listening for button clicks
+   * The interaction must already be deferred or replied to
+   *
+   * @param interaction - Command interaction that requested the data
+   * @returns Promise resolving once the first page is shown
+   */
+  public async start(interaction: CommandInteraction): Promise<void> {
+    const firstPage = await this.load();
+
+    if (firstPage.items.length === 0 && this.options.empty) {
+      await interaction.editReply({ embeds: [this.options.empty] });
+      return;
+    }
+
+    if (!firstPage.hasMore) {
+      await interaction.editReply({
+        embeds: [this.options.render(firstPage.items, 0)],
+      });
+      return;
+    }
+
+    const message = await interaction.editReply(this.buildMessage(firstPage));
+
+    const collector = message.createMessageComponentCollector({
+      componentType: ComponentType.Button,
+      idle: this.options.idleMs ?? 2 * 60 * 1000,
+    });
+    activeMessageIds.add(message.id);
+
+    collector.on("collect", async (button) => {
+      if (button.user.id !== interaction.user.id) {
+        await button.reply({
+          embeds: [
+            EmbedPresets.error(
+              "Not Your Menu",
+              "Only the user who ran this command can change pages."
+            ).build(),
+          ],
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      const action = paginatorCustomId.decode(button.customId)?.action;
+
+      if (action === "prev" && this.pageIndex > 0) this.pageIndex--;
+      if (action === "next" && this.page?.hasMore) this.pageIndex++;
+
+      try {
+        await button.update(this.buildMessage(await this.load()));
+      } catch (error) {
+        logger.error("Failed to change paginator page:", error);
+      }
+    });
+
+    collector.on("end", () => {
+      activeMessageIds.delete(message.id);
+      interaction
+        .editReply({ components: [] })
+        .catch((error) =>
+          logger.debug("Failed to remove paginator buttons:", error)
+        );
+    });
+  }
+}
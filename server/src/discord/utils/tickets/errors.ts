@@ -0,0 +1,14 @@
+/**
+ * Error thrown when a ticket action cannot be performed
+ * The message is safe to show to the user who triggered the action
+ */
+export class TicketError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TicketError";
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
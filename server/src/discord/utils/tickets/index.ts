@@ -0,0 +1,10 @@
+export { ticketManager, TicketManager } from "./ticket-manager";
+export {
+  ticketPanelManager,
+  TicketPanelManager,
+  TICKET_PANEL_PREFIX,
+  ticketPanelCustomId,
+} from "./ticket-panel-manager";
+export { ticketArchiver, TicketArchiver } from "./ticket-archiver";
+export { transcriptRenderers } from "./transcript-renderers";
+export { TicketError } from "./errors";
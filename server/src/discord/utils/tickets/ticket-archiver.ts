@@ -0,0 +1,213 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {
+  AttachmentBuilder,
+  Collection,
+  Message,
+  TextChannel,
+} from "discord.js";
+import config from "@/config";
+import { ticketQueries } from "@/db/queries/tickets.queries";
+import { ticketMessageQueries } from "@/db/queries/ticket-messages.queries";
+import type {
+  Ticket,
+  TicketArchiveFormat,
+  TicketMessageCreate,
+} from "@/db/types/tickets.types";
+import { EmbedPresets } from "@/discord/embeds";
+import { isSendableChannel } from "@/discord/utils/channel-guard";
+import { transcriptRenderers } from "./transcript-renderers";
+
+const archiveConfig = config.discord.tickets.archive;
+
+/**
+ * Maximum number of messages Discord returns per fetch
+ */
+const FETCH_LIMIT = 100;
+
+/**
+ * Archives ticket conversations
+ *
+ * Captures every message of a ticket channel into ticket_messages, renders a
+ * transcript (json, txt or html) to disk, records the archive on the ticket and
+ * posts the transcript to the configured log channel.
+ */
+export class TicketArchiver {
+  /**
+   * Fetches every message in a channel, oldest first
+   *
+   * @param channel - Channel to read
+   * @returns Promise resolving to all messages in chronological order
+   */
+  private async fetchAllMessages(channel: TextChannel): Promise<Message[]> {
+    const messages: Message[] = [];
+    let before: string | undefined;
+
+    while (true) {
+      const batch: Collection<string, Message> = await channel.messages.fetch({
+        limit: FETCH_LIMIT,
+        before,
+      });
+
+      messages.push(...batch.values());
+
+      if (batch.size < FETCH_LIMIT) break;
+      before = batch.lastKey();
+    }
+
+    return messages.reverse();
+  }
+
+  /**
+   * Converts a Discord message into a ticket_messages row
+   */
+  private toTicketMessage(
+    ticketId: number,
+    message: Message
+  ): TicketMessageCreate {
+    return {
+      ticketId,
+      messageId: message.id,
+      authorId: message.author.id,
+      authorUsername: message.author.username,
+      content: message.content || null,
+      createdAt: message.createdAt,
+      editedAt: message.editedAt,
+      attachments: message.attachments.map((attachment) => ({
+        id: attachment.id,
+        name: attachment.name,
+        url: attachment.url,
+        contentType: attachment.contentType,
+        size: attachment.size,
+      })),
+      embeds: message.embeds.map((embed) => embed.toJSON()),
+    };
+  }
+
+  /**
+   * Captures every message of a ticket channel into ticket_messages
+   * Messages captured before are updated with their latest content
+   *
+   * @param ticket - Ticket the channel belongs to
+   * @param channel - Ticket channel
+   * @returns Promise resolving to the number of captured messages
+   */
+  public async captureMessages(
+    ticket: Ticket,
+    channel: TextChannel
+  ): Promise<number> {
+    const messages = await this.fetchAllMessages(channel);
+
+    await ticketMessageQueries.upsertMany(
+      messages.map((message) => this.toTicketMessage(ticket.ticketId, message)),
+      ["ticketId", "messageId"],
+      ["content", "editedAt", "attachments", "embeds"]
+    );
+
+    return messages.length;
+  }
+
+  /**
+   * Gets the file path a ticket transcript is written to
+   *
+   * @example
+   * getArchivePath(ticket, "html") // "transcripts/support-0007-42.html"
+   */
+  private getArchivePath(ticket: Ticket, format: TicketArchiveFormat): string {
+    const fileName = `${ticket.categoryKey}-${String(
+      ticket.ticketNumber
+    ).padStart(4, "0")}-${ticket.ticketId}.${format}`;
+
+    return path.join(archiveConfig.dir, fileName);
+  }
+
+  /**
+   * Posts a transcript file to the configured log channel
+   */
+  private async postToLogChannel(
+    channel: TextChannel,
+    ticket: Ticket,
+    archivePath: string
+  ): Promise<void> {
+    if (!archiveConfig.logChannelId) return;
+
+    const logChannel = await channel.client.channels
+      .fetch(archiveConfig.logChannelId)
+      .catch(() => null);
+
+    if (!isSendableChannel(logChannel)) {
+      logger.warn(
+        `Ticket log channel ${archiveConfig.logChannelId} is missing or not sendable`
+      );
+      return;
+    }
+
+    await logChannel.send({
+      embeds: [EmbedPresets.tickets.archived(ticket).build()],
+      files: [
+        new AttachmentBuilder(archivePath, {
+          name: path.basename(archivePath),
+        }),
+      ],
+    });
+  }
+
+  /**
+   * Archives a ticket
+   *
+   * Process:
+   * 1. Captures all channel messages into ticket_messages
+   * 2. Renders the stored messages in the requested format
+   * 3. Writes the transcript to the archive directory
+   * 4. Records archived, archive_path and archive_format on the ticket
+   * 5. Posts the transcript to the log channel, if configured
+   *
+   * @param ticket - Ticket to archive
+   * @param channel - Ticket channel
+   * @param format - Transcript format (defaults to the configured format)
+   * @returns Promise resolving to the updated ticket
+   */
+  public async archive(
+    ticket: Ticket,
+    channel: TextChannel,
+    format: TicketArchiveFormat = archiveConfig.format
+  ): Promise<Ticket> {
+    const captured = await this.captureMessages(ticket, channel);
+
+    const messages = await ticketMessageQueries.findAll(
+      { ticketId: ticket.ticketId },
+      { orderBy: "createdAt", orderDirection: "ASC" }
+    );
+
+    const archivePath = this.getArchivePath(ticket, format);
+    const transcript = transcriptRenderers[format](ticket, messages);
+
+    await fs.mkdir(path.dirname(archivePath), { recursive: true });
+    await fs.writeFile(archivePath, transcript, "utf-8");
+
+    const archived = await ticketQueries.updateAndReturn(
+      { ticketId: ticket.ticketId },
+      { archived: true, archivePath, archiveFormat: format }
+    );
+
+    logger.info(
+      `Archived ${captured} message(s) of ticket #${ticket.ticketNumber} to ${archivePath}`
+    );
+
+    try {
+      await this.postToLogChannel(channel, archived, archivePath);
+    } catch (error) {
+      logger.error(
+        `Failed to post transcript of ticket #${ticket.ticketNumber}:`,
+        error
+      );
+    }
+
+    return archived;
+  }
+}
+
+/**
+ * Singleton instance of the ticket archiver
+ */
+export const ticketArchiver = new TicketArchiver();
@@ -0,0 +1,518 @@
+import {
+  ChannelType,
+  Guild,
+  GuildMember,
+  OverwriteResolvable,
+  PermissionFlagsBits,
+  TextChannel,
+  User,
+} from "discord.js";
+import config from "@/config";
+import type { TicketCategoryConfig } from "@/config/types";
+import { ticketQueries } from "@/db/queries/tickets.queries";
+import { ticketParticipantQueries } from "@/db/queries/ticket-participants.queries";
+import type { Ticket, TicketArchiveFormat } from "@/db/types/tickets.types";
+import type { Page } from "@/db/utils/pagination";
+import { transaction } from "@/db/utils/transaction";
+import { EmbedPresets } from "@/discord/embeds";
+import { TicketError } from "./errors";
+import { ticketArchiver } from "./ticket-archiver";
+
+const ticketConfig = config.discord.tickets;
+
+/**
+ * Permissions granted to ticket creators, participants and staff
+ */
+const TICKET_MEMBER_PERMISSIONS = [
+  PermissionFlagsBits.ViewChannel,
+  PermissionFlagsBits.SendMessages,
+  PermissionFlagsBits.ReadMessageHistory,
+  PermissionFlagsBits.AttachFiles,
+  PermissionFlagsBits.EmbedLinks,
+];
+
+/**
+ * Manages the ticket lifecycle: opening, closing, participants and claiming
+ *
+ * Every ticket is backed by a private text channel and a row in the tickets table.
+ * Ticket numbers are sequential per category key.
+ */
+export class TicketManager {
+  /**
+   * Looks up a configured ticket category by key
+   *
+   * @param categoryKey - Category key to look up
+   * @returns The category configuration, or undefined if not configured
+   */
+  public getCategory(categoryKey: string): TicketCategoryConfig | undefined {
+    return ticketConfig.categories.find((c) => c.key === categoryKey);
+  }
+
+  /**
+   * Gets all role IDs with staff access to tickets in a category
+   *
+   * @param categoryKey - Category key
+   * @returns Global staff roles followed by category specific staff roles
+   */
+  private getStaffRoleIds(categoryKey: string): string[] {
+    const category = this.getCategory(categoryKey);
+    return [...ticketConfig.staffRoleIds, ...(category?.staffRoleIds ?? [])];
+  }
+
+  /**
+   * Formats the channel name for a ticket
+   *
+   * @example
+   * getChannelName("support", 7) // "support-0007"
+   */
+  private getChannelName(categoryKey: string, ticketNumber: number): string {
+    return `${categoryKey}-${String(ticketNumber).padStart(4, "0")}`;
+  }
+
+  /**
+   * Checks whether a member is ticket staff for a category
+   * Administrators are always considered staff
+   *
+   * @param member - Guild member to check
+   * @param categoryKey - Category key of the ticket
+   * @returns True if the member has a staff role or Administrator permission
+   */
+  public isStaff(member: GuildMember, categoryKey: string): boolean {
+    if (member.permissions.has(PermissionFlagsBits.Administrator)) {
+      return true;
+    }
+
+    return this.getStaffRoleIds(categoryKey).some((roleId) =>
+      member.roles.cache.has(roleId)
+    );
+  }
+
+  /**
+   * Gets the open ticket bound to a channel
+   *
+   * @param channelId - Discord channel ID
+   * @returns Promise resolving to the open ticket
+   * @throws TicketError if the channel is not an open ticket
+   */
+  public async getOpenTicket(channelId: string): Promise<Ticket> {
+    const ticket = await ticketQueries.find({ channelId });
+
+    if (!ticket) {
+      throw new TicketError("This channel is not a ticket.");
+    }
+
+    if (ticket.status !== "open") {
+      throw new TicketError("This ticket is already closed.");
+    }
+
+    return ticket;
+  }
+
+  /**
+   * Ensures a member may manage a ticket (creator or staff)
+   *
+   * @throws TicketError if the member is neither the creator nor staff
+   */
+  private assertCanManage(ticket: Ticket, member: GuildMember): void {
+    if (
+      ticket.creatorId !== member.id &&
+      !this.isStaff(member, ticket.categoryKey)
+    ) {
+      throw new TicketError(
+        "Only the ticket creator or staff can manage this ticket."
+      );
+    }
+  }
+
+  /**
+   * Opens a new ticket in a category
+   *
+   * Process:
+   * 1. Validates the category
+   * 2. Locks the user's tickets and checks the open ticket limit
+   * 3. Allocates the next ticket number and stores the ticket without a channel
+   * 4. Creates a private text channel visible to the creator, staff and the bot
+   * 5. Binds the channel to the ticket
+   * 6. Posts a welcome embed in the new channel
+   *
+   * Steps 2 and 3 run in one transaction holding the lock, so simultaneous
+   * requests of the same user (e.g. a double click on a panel button) cannot
+   * both pass the limit check. The channel is only created once that is
+   * committed, so no lock is held during the Discord API call. If the
+   * channel cannot be created or bound, the ticket is closed again and the
+   * channel deleted.
+   *
+   * @param guild - Guild to open the ticket in
+   * @param user - User opening the ticket
+   * @param categoryKey - Ticket category key
+   * @returns Promise resolving to the created ticket and its channel
+   * @throws TicketError if the category is unknown or the user hit the open ticket limit
+   */
+  public async open(
+    guild: Guild,
+    user: User,
+    categoryKey: string
+  ): Promise<{ ticket: Ticket; channel: TextChannel }> {
+    const category = this.getCategory(categoryKey);
+
+    if (!category) {
+      throw new TicketError(`Unknown ticket category \`${categoryKey}\`.`);
+    }
+
+    const pending = await transaction(async (tx) => {
+      const tickets = tx.bind(ticketQueries);
+
+      await tickets.lockCreator(user.id);
+
+      const openTickets = await tickets.findOpenByCreator(user.id);
+
+      if (openTickets.length >= ticketConfig.maxOpenPerUser) {
+        const channels = openTickets
+          .map((t) =>
+            t.channelId ? `<#${t.channelId}>` : `#${t.ticketNumber}`
+          )
+          .join(", ");
+        throw new TicketError(
+          `You already have ${openTickets.length} open ticket(s): ${channels}`
+        );
+      }
+
+      // The counter row stays locked until commit, which follows right away
+      const ticketNumber = await tickets.allocateTicketNumber(category.key);
+
+      return tickets.createAndReturn({
+        creatorId: user.id,
+        categoryKey: category.key,
+        ticketNumber,
+      });
+    });
+
+    let channel: TextChannel | null = null;
+    let ticket: Ticket;
+
+    try {
+      channel = await this.createChannel(guild, user, category, pending);
+      ticket = await ticketQueries.updateAndReturn(
+        { ticketId: pending.ticketId },
+        { channelId: channel.id }
+      );
+    } catch (error) {
+      await this.abandon(pending, channel);
+      throw error;
+    }
+
+    await channel.send({
+      content: `<@${user.id}>`,
+      embeds: [EmbedPresets.tickets.welcome(ticket, category).build()],
+    });
+
+    logger.info(
+      `${user.tag} (${user.id}) opened ${category.key} ticket #${ticket.ticketNumber}`
+    );
+
+    return { ticket, channel };
+  }
+
+  /**
+   * Creates the private text channel of a ticket
+   *
+   * @param guild - Guild to create the channel in
+   * @param user - User who opened the ticket
+   * @param category - Category of the ticket
+   * @param ticket - Ticket the channel is created for
+   * @returns Promise resolving to the created channel
+   */
+  private async createChannel(
+    guild: Guild,
+    user: User,
+    category: TicketCategoryConfig,
+    ticket: Ticket
+  ): Promise<TextChannel> {
+    const permissionOverwrites: OverwriteResolvable[] = [
+      {
+        id: guild.roles.everyone.id,
+        deny: [PermissionFlagsBits.ViewChannel],
+      },
+      { id: user.id, allow: TICKET_MEMBER_PERMISSIONS },
+      ...this.getStaffRoleIds(category.key).map((roleId) => ({
+        id: roleId,
+        allow: TICKET_MEMBER_PERMISSIONS,
+      })),
+    ];
+
+    if (guild.members.me) {
+      permissionOverwrites.push({
+        id: guild.members.me.id,
+        allow: [
+          ...TICKET_MEMBER_PERMISSIONS,
+          PermissionFlagsBits.ManageChannels,
+        ],
+      });
+    }
+
+    return guild.channels.create({
+      name: this.getChannelName(category.key, ticket.ticketNumber),
+      type: ChannelType.GuildText,
+      parent: category.parentCategoryId ?? ticketConfig.parentCategoryId,
+      topic: `${category.label} ticket #${ticket.ticketNumber} opened by ${user.tag}`,
+      permissionOverwrites,
+    });
+  }
+
+  /**
+   * Undoes a ticket whose channel could not be created or bound
+   *
+   * The ticket is closed rather than deleted, so its number stays taken and
+   * numbers have no gaps. Failures are logged, the original error is what
+   * the user should see.
+   *
+   * @param ticket - Ticket stored without a channel
+   * @param channel - Channel created for it, if any
+   */
+  private async abandon(
+    ticket: Ticket,
+    channel: TextChannel | null
+  ): Promise<void> {
+    await ticketQueries
+      .close(ticket.ticketId, ticket.creatorId, "Failed to create the channel")
+      .catch((error) =>
+        logger.error(
+          `Failed to close abandoned ticket #${ticket.ticketNumber}:`,
+          error
+        )
+      );
+
+    await channel
+      ?.delete("Failed to persist ticket")
+      .catch((error) =>
+        logger.error(
+          `Failed to delete orphaned ticket channel ${channel.id}:`,
+          error
+        )
+      );
+  }
+
+  /**
+   * Closes the ticket bound to a channel and schedules the channel for deletion
+   * When archiving is enabled the conversation is archived before the channel is deleted
+   *
+   * Only one of several simultaneous closes succeeds, the others fail as
+   * already closed, so the ticket is archived and its channel deleted once.
+   *
+   * @param channel - Ticket channel
+   * @param member - Member closing the ticket (creator or staff)
+   * @param reason - Optional reason stored as close_reason
+   * @param archiveFormat - Optional transcript format overriding the configured default
+   * @returns Promise resolving to the closed ticket
+   * @throws TicketError if the channel is not an open ticket or the member may not close it
+   */
+  public async close(
+    channel: TextChannel,
+    member: GuildMember,
+    reason?: string | null,
+    archiveFormat?: TicketArchiveFormat | null
+  ): Promise<Ticket> {
+    const ticket = await this.getOpenTicket(channel.id);
+    this.assertCanManage(ticket, member);
+
+    let closed = await ticketQueries.close(
+      ticket.ticketId,
+      member.id,
+      reason ?? null
+    );
+
+    if (!closed) {
+      // Closed by someone else since it was read
+      throw new TicketError("This ticket is already closed.");
+    }
+
+    logger.info(
+      `${member.user.tag} (${member.id}) closed ${ticket.categoryKey} ticket #${ticket.ticketNumber}`
+    );
+
+    if (ticketConfig.archive.enabled) {
+      try {
+        closed = await ticketArchiver.archive(
+          closed,
+          channel,
+          archiveFormat ?? undefined
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to archive ticket #${ticket.ticketNumber}:`,
+          error
+        );
+      }
+    }
+
+    setTimeout(() => {
+      channel
+        .delete(`Ticket #${ticket.ticketNumber} closed`)
+        .catch((error) =>
+          logger.error(`Failed to delete ticket channel ${channel.id}:`, error)
+        );
+    }, ticketConfig.closeDelaySeconds * 1000);
+
+    return closed;
+  }
+
+  /**
+   * Adds a user to the ticket bound to a channel
+   *
+   * @param channel - Ticket channel
+   * @param member - Member performing the action (creator or staff)
+   * @param user - User to add
+   * @returns Promise resolving to the ticket
+   * @throws TicketError if the user is already part of the ticket
+   */
+  public async addParticipant(
+    channel: TextChannel,
+    member: GuildMember,
+    user: User
+  ): Promise<Ticket> {
+    const ticket = await this.getOpenTicket(channel.id);
+    this.assertCanManage(ticket, member);
+
+    if (user.id === ticket.creatorId) {
+      throw new TicketError("The ticket creator is already in this ticket.");
+    }
+
+    const alreadyAdded = await ticketParticipantQueries.exists({
+      ticketId: ticket.ticketId,
+      userId: user.id,
+    });
+
+    if (alreadyAdded) {
+      throw new TicketError(`<@${user.id}> is already in this ticket.`);
+    }
+
+    await ticketParticipantQueries.create({
+      ticketId: ticket.ticketId,
+      userId: user.id,
+      addedBy: member.id,
+    });
+
+    await channel.permissionOverwrites.edit(user.id, {
+      ViewChannel: true,
+      SendMessages: true,
+      ReadMessageHistory: true,
+      AttachFiles: true,
+      EmbedLinks: true,
+    });
+
+    return ticket;
+  }
+
+  /**
+   * Removes a previously added user from the ticket bound to a channel
+   *
+   * @param channel - Ticket channel
+   * @param member - Member performing the action (creator or staff)
+   * @param user - User to remove
+   * @returns Promise resolving to the ticket
+   * @throws TicketError if the user is not a participant of the ticket
+   */
+  public async removeParticipant(
+    channel: TextChannel,
+    member: GuildMember,
+    user: User
+  ): Promise<Ticket> {
+    const ticket = await this.getOpenTicket(channel.id);
+    this.assertCanManage(ticket, member);
+
+    if (user.id === ticket.creatorId) {
+      throw new TicketError("The ticket creator cannot be removed.");
+    }
+
+    const removed = await ticketParticipantQueries.deleteAll({
+      ticketId: ticket.ticketId,
+      userId: user.id,
+    });
+
+    if (removed === 0) {
+      throw new TicketError(
+        `<@${user.id}> is not a participant of this ticket.`
+      );
+    }
+
+    await channel.permissionOverwrites.delete(user.id);
+
+    return ticket;
+  }
+
+  /**
+   * Claims the ticket bound to a channel for a staff member
+   *
+   * @param channel - Ticket channel
+   * @param member - Staff member claiming the ticket
+   * @returns Promise resolving to the claimed ticket
+   * @throws TicketError if the member is not staff or the ticket is already claimed
+   */
+  public async claim(
+    channel: TextChannel,
+    member: GuildMember
+  ): Promise<Ticket> {
+    const ticket = await this.getOpenTicket(channel.id);
+
+    if (!this.isStaff(member, ticket.categoryKey)) {
+      throw new TicketError("Only staff can claim tickets.");
+    }
+
+    const claimed = await ticketQueries.claim(ticket.ticketId, member.id);
+
+    if (!claimed) {
+      const current = await ticketQueries.find({ ticketId: ticket.ticketId });
+
+      if (current?.status !== "open") {
+        throw new TicketError("This ticket is already closed.");
+      }
+
+      throw new TicketError(
+        current.claimedBy === member.id
+          ? "You have already claimed this ticket."
+          : `This ticket is already claimed by <@${current.claimedBy}>.`
+      );
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Gets one page of a user's tickets, newest first
+   * Members can view their own history, staff of any category can view everyone's
+   *
+   * @param member - Member requesting the history
+   * @param user - User whose tickets are listed
+   * @param cursor - Cursor of the page, null for the first page
+   * @param limit - Page size
+   * @returns Promise resolving to the page of tickets
+   * @throws TicketError if the member may not view the user's history
+   */
+  public async getHistory(
+    member: GuildMember,
+    user: User,
+    cursor: string | null,
+    limit: number = 10
+  ): Promise<Page<Ticket>> {
+    const isAnyStaff = ticketConfig.categories.some((category) =>
+      this.isStaff(member, category.key)
+    );
+
+    if (member.id !== user.id && !isAnyStaff) {
+      throw new TicketError("Only staff can view other users' tickets.");
+    }
+
+    return ticketQueries.paginate({
+      filters: { creatorId: user.id },
+      orderBy: "createdAt",
+      orderDirection: "DESC",
+      limit,
+      cursor,
+    });
+  }
+}
+
+/**
+ * Singleton instance of the ticket manager
+ */
+export const ticketManager = new TicketManager();
@@ -0,0 +1,299 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  Client,
+  DiscordAPIError,
+  MessageFlags,
+  RESTJSONErrorCodes,
+  TextChannel,
+} from "discord.js";
+import { ticketPanelQueries } from "@/db/queries/ticket-panels.queries";
+import type { TicketPanel, TicketPanelConfig } from "@/db/types/tickets.types";
+import { EmbedPresets } from "@/discord/embeds";
+import { isTextChannel } from "@/discord/utils/channel-guard";
+import { CustomId } from "@/discord/utils/custom-id";
+import { ticketManager } from "./ticket-manager";
+import { TicketError } from "./errors";
+
+/**
+ * Custom ID prefix of ticket panel buttons
+ */
+export const TICKET_PANEL_PREFIX = "ticket-panel";
+
+/**
+ * Custom IDs of ticket panel buttons, `ticket-panel:open:<categoryKey>`
+ */
+export const ticketPanelCustomId = new CustomId<{
+  action: string;
+  categoryKey: string;
+}>(TICKET_PANEL_PREFIX, ["action", "categoryKey"]);
+
+/**
+ * Checks if a Discord API error means the panel channel or message is gone
+ * Other errors (missing permissions, outages, rate limits) are temporary
+ */
+function isUnknownChannelOrMessage(error: unknown): boolean {
+  return (
+    error instanceof DiscordAPIError &&
+    (error.code === RESTJSONErrorCodes.UnknownChannel ||
+      error.code === RESTJSONErrorCodes.UnknownMessage)
+  );
+}
+
+/**
+ * Discord allows at most 5 buttons per action row and 5 rows per message
+ */
+const BUTTONS_PER_ROW = 5;
+const MAX_BUTTONS = 25;
+
+/**
+ * Manages ticket panels: messages with one button per ticket category
+ *
+ * Panels are persisted in the ticket_panels table so they can be refreshed
+ * (or cleaned up if their message was deleted) after a restart.
+ */
+export class TicketPanelManager {
+  /**
+   * Builds the button rows for a panel configuration
+   *
+   * @param panelConfig - Panel configuration
+   * @returns Action rows with one button per configured category
+   * @throws TicketError if the panel references an unknown category
+   */
+  private buildComponents(
+    panelConfig: TicketPanelConfig
+  ): ActionRowBuilder<ButtonBuilder>[] {
+    const buttons = panelConfig.categories.map((categoryKey) => {
+      const category = ticketManager.getCategory(categoryKey);
+
+      if (!category) {
+        throw new TicketError(`Unknown ticket category \`${categoryKey}\`.`);
+      }
+
+      const button = new ButtonBuilder()
+        .setCustomId(
+          ticketPanelCustomId.encode({
+            action: "open",
+            categoryKey: category.key,
+          })
+        )
+        .setLabel(category.label)
+        .setStyle(ButtonStyle.Primary);
+
+      if (category.emoji) {
+        button.setEmoji(category.emoji);
+      }
+
+      return button;
+    });
+
+    const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+
+    for (let i = 0; i < buttons.length; i += BUTTONS_PER_ROW) {
+      rows.push(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          buttons.slice(i, i + BUTTONS_PER_ROW)
+        )
+      );
+    }
+
+    return rows;
+  }
+
+  /**
+   * Builds the full message payload (embed and buttons) for a panel
+   */
+  private buildMessage(panelConfig: TicketPanelConfig) {
+    return {
+      embeds: [EmbedPresets.tickets.panel(panelConfig).build()],
+      components: this.buildComponents(panelConfig),
+    };
+  }
+
+  /**
+   * Posts a new ticket panel and persists it
+   *
+   * @param channel - Channel to post the panel in
+   * @param panelConfig - Panel configuration
+   * @returns Promise resolving to the persisted panel
+   * @throws TicketError if the configuration has no or too many categories
+   */
+  public async create(
+    channel: TextChannel,
+    panelConfig: TicketPanelConfig
+  ): Promise<TicketPanel> {
+    if (panelConfig.categories.length === 0) {
+      throw new TicketError("A panel needs at least one ticket category.");
+    }
+
+    if (panelConfig.categories.length > MAX_BUTTONS) {
+      throw new TicketError(
+        `A panel can show at most ${MAX_BUTTONS} ticket categories.`
+      );
+    }
+
+    const message = await channel.send(this.buildMessage(panelConfig));
+
+    try {
+      return await ticketPanelQueries.createAndReturn({
+        channelId: channel.id,
+        messageId: message.id,
+        panelConfig,
+      });
+    } catch (error) {
+      await message
+        .delete()
+        .catch((deleteError) =>
+          logger.error(
+            `Failed to delete orphaned ticket panel ${message.id}:`,
+            deleteError
+          )
+        );
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a panel message and its persisted configuration
+   *
+   * @param client - Discord client used to fetch the panel message
+   * @param messageId - Panel message ID
+   * @param actorId - Discord user ID recorded in the audit log
+   * @returns Promise resolving when the panel is removed
+   * @throws TicketError if no panel exists for the message
+   */
+  public async remove(
+    client: Client,
+    messageId: string,
+    actorId: string
+  ): Promise<void> {
+    const panel = await ticketPanelQueries.find({ messageId });
+
+    if (!panel) {
+      throw new TicketError(`No ticket panel found for message ${messageId}.`);
+    }
+
+    const message = await this.fetchPanelMessage(client, panel);
+    await message?.delete().catch(() => undefined);
+
+    await ticketPanelQueries.withActor(actorId).delete({ messageId });
+  }
+
+  /**
+   * Fetches the message of a persisted panel
+   *
+   * @returns The panel message, or null if its channel or message no longer exists
+   * @throws Error of the Discord API if fetching failed for another reason
+   */
+  private async fetchPanelMessage(client: Client, panel: TicketPanel) {
+    try {
+      const channel = await client.channels.fetch(panel.channelId);
+
+      if (!isTextChannel(channel)) {
+        return null;
+      }
+
+      return await channel.messages.fetch(panel.messageId);
+    } catch (error) {
+      if (isUnknownChannelOrMessage(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Rehydrates all persisted panels after the client is ready
+   *
+   * Re-renders each panel message from its stored configuration so button
+   * labels follow the current category config. Panels whose message was
+   * deleted while the bot was offline are removed from the table. Panels
+   * that cannot be fetched for another reason are kept and retried on the
+   * next start.
+   *
+   * @param client - Ready Discord client
+   * @returns Promise resolving when all panels have been processed
+   */
+  public async restore(client: Client): Promise<void> {
+    const panels = await ticketPanelQueries.getAll();
+    let restored = 0;
+
+    for (const panel of panels) {
+      try {
+        const message = await this.fetchPanelMessage(client, panel);
+
+        if (!message) {
+          await ticketPanelQueries.delete({ id: panel.id });
+          logger.warn(
+            `Removed ticket panel ${panel.messageId}: message no longer exists`
+          );
+          continue;
+        }
+
+        await message.edit(this.buildMessage(panel.panelConfig));
+        restored++;
+      } catch (error) {
+        logger.error(
+          `Failed to restore ticket panel ${panel.messageId}:`,
+          error
+        );
+      }
+    }
+
+    logger.info(`Restored ${restored}/${panels.length} ticket panel(s)`);
+  }
+
+  /**
+   * Handles a click on a ticket panel button by opening a ticket
+   *
+   * @param interaction - Button interaction with a ticket panel custom ID
+   * @param payload - Payload decoded from the custom ID
+   * @returns Promise resolving when the interaction has been answered
+   */
+  public async handleButton(
+    interaction: ButtonInteraction,
+    { action, categoryKey }: { action: string; categoryKey: string }
+  ): Promise<void> {
+    if (action !== "open" || !categoryKey || !interaction.inCachedGuild()) {
+      // E.g. a button of a panel posted by an older version
+      logger.warn(`Unknown ticket panel button: ${interaction.customId}`);
+      await interaction.reply({
+        embeds: [
+          EmbedPresets.error(
+            "Unsupported Button",
+            "This button is no longer supported."
+          ).build(),
+        ],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    try {
+      const { ticket } = await ticketManager.open(
+        interaction.guild,
+        interaction.user,
+        categoryKey
+      );
+
+      await interaction.editReply({
+        embeds: [EmbedPresets.tickets.opened(ticket).build()],
+      });
+    } catch (error) {
+      if (!(error instanceof TicketError)) {
+        throw error;
+      }
+
+      await interaction.editReply({
+        embeds: [EmbedPresets.error("Ticket Error", error.message).build()],
+      });
+    }
+  }
+}
+
+/**
+ * Singleton instance of the ticket panel manager
+ */
+export const ticketPanelManager = new TicketPanelManager();
@@ -0,0 +1,290 @@
+import type { APIEmbed } from "discord.js";
+import type {
+  Ticket,
+  TicketArchiveFormat,
+  TicketMessage,
+} from "@/db/types/tickets.types";
+
+/**
+ * Renders a ticket and its messages into a transcript string
+ */
+type TranscriptRenderer = (ticket: Ticket, messages: TicketMessage[]) => string;
+
+/**
+ * Formats a date as "YYYY-MM-DD HH:mm:ss" in UTC
+ */
+function formatDate(date: Date | string): string {
+  return new Date(date).toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Escapes a string for safe inclusion in HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Formats a numeric embed color as a CSS hex color
+ */
+function formatColor(color?: number): string {
+  return color !== undefined
+    ? `#${color.toString(16).padStart(6, "0")}`
+    : "#202225";
+}
+
+/**
+ * Renders the transcript as pretty-printed JSON
+ */
+function renderJson(ticket: Ticket, messages: TicketMessage[]): string {
+  return JSON.stringify({ ticket, messages }, null, 2);
+}
+
+/**
+ * Renders a single embed as indented plain text lines
+ */
+function renderEmbedText(embed: APIEmbed): string[] {
+  const lines: string[] = [];
+
+  if (embed.author?.name) lines.push(`    ${embed.author.name}`);
+  if (embed.title) lines.push(`    ${embed.title}`);
+  if (embed.description) {
+    lines.push(...embed.description.split("\n").map((l) => `    ${l}`));
+  }
+  for (const field of embed.fields ?? []) {
+    lines.push(`    ${field.name}: ${field.value}`);
+  }
+  if (embed.footer?.text) lines.push(`    ${embed.footer.text}`);
+
+  return ["  [Embed]", ...lines];
+}
+
+/**
+ * Renders the transcript as plain text
+ */
+function renderTxt(ticket: Ticket, messages: TicketMessage[]): string {
+  const lines = [
+    `Ticket #${ticket.ticketNumber} (${ticket.categoryKey})`,
+    `Opened by: ${ticket.creatorId} at ${formatDate(ticket.createdAt)}`,
+  ];
+
+  if (ticket.closedAt) {
+    lines.push(
+      `Closed by: ${ticket.closedBy ?? "unknown"} at ${formatDate(
+        ticket.closedAt
+      )}`
+    );
+  }
+
+  if (ticket.closeReason) {
+    lines.push(`Reason: ${ticket.closeReason}`);
+  }
+
+  lines.push(`Messages: ${messages.length}`, "");
+
+  for (const message of messages) {
+    const edited = message.editedAt
+      ? ` (edited ${formatDate(message.editedAt)})`
+      : "";
+
+    lines.push(
+      `[${formatDate(message.createdAt)}] ${message.authorUsername}${edited}:`
+    );
+
+    if (message.content) {
+      lines.push(...message.content.split("\n").map((l) => `  ${l}`));
+    }
+
+    for (const attachment of message.attachments) {
+      lines.push(`  [Attachment] ${attachment.name}: ${attachment.url}`);
+    }
+
+    for (const embed of message.embeds) {
+      lines.push(...renderEmbedText(embed));
+    }
+
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders a single embed as an HTML block
+ */
+function renderEmbedHtml(embed: APIEmbed): string {
+  const parts: string[] = [];
+
+  if (embed.author?.name) {
+    parts.push(
+      `<div class="embed-author">${escapeHtml(embed.author.name)}</div>`
+    );
+  }
+
+  if (embed.title) {
+    const title = escapeHtml(embed.title);
+    parts.push(
+      embed.url
+        ? `<div class="embed-title"><a href="${escapeHtml(
+            embed.url
+          )}">${title}</a></div>`
+        : `<div class="embed-title">${title}</div>`
+    );
+  }
+
+  if (embed.description) {
+    parts.push(
+      `<div class="embed-description">${escapeHtml(embed.description)}</div>`
+    );
+  }
+
+  if (embed.fields?.length) {
+    const fields = embed.fields
+      .map(
+        (field) =>
+          `<div class="embed-field${field.inline ? " inline" : ""}">` +
+          `<div class="embed-field-name">${escapeHtml(field.name)}</div>` +
+          `<div class="embed-field-value">${escapeHtml(field.value)}</div>` +
+          `</div>`
+      )
+      .join("");
+    parts.push(`<div class="embed-fields">${fields}</div>`);
+  }
+
+  if (embed.footer?.text || embed.timestamp) {
+    const footer = [
+      embed.footer?.text ? escapeHtml(embed.footer.text) : null,
+      embed.timestamp ? formatDate(embed.timestamp) : null,
+    ]
+      .filter(Boolean)
+      .join(" • ");
+    parts.push(`<div class="embed-footer">${footer}</div>`);
+  }
+
+  return `<div class="embed" style="border-left-color: ${formatColor(
+    embed.color
+  )}">${parts.join("")}</div>`;
+}
+
+const HTML_STYLES = `
+  body { background: #313338; color: #dbdee1; font-family: "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; padding: 24px; }
+  header { border-bottom: 1px solid #4e5058; margin-bottom: 16px; padding-bottom: 12px; }
+  header h1 { color: #f2f3f5; font-size: 20px; margin: 0 0 8px; }
+  header div { color: #b5bac1; font-size: 14px; }
+  .message { display: flex; flex-direction: column; padding: 6px 0; }
+  .message-header { display: flex; align-items: baseline; gap: 8px; }
+  .author { color: #f2f3f5; font-weight: 600; }
+  .timestamp, .edited { color: #949ba4; font-size: 12px; }
+  .content { white-space: pre-wrap; word-wrap: break-word; margin-top: 2px; }
+  .attachment a { color: #00a8fc; }
+  .embed { background: #2b2d31; border-left: 4px solid; border-radius: 4px; margin-top: 6px; max-width: 520px; padding: 8px 12px; }
+  .embed-author { font-size: 13px; font-weight: 600; }
+  .embed-title { color: #f2f3f5; font-weight: 600; margin: 4px 0; }
+  .embed-title a { color: #00a8fc; text-decoration: none; }
+  .embed-description { font-size: 14px; white-space: pre-wrap; }
+  .embed-fields { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 8px; }
+  .embed-field { flex: 1 1 100%; }
+  .embed-field.inline { flex: 1 1 30%; }
+  .embed-field-name { font-size: 13px; font-weight: 600; }
+  .embed-field-value { font-size: 13px; white-space: pre-wrap; }
+  .embed-footer { color: #949ba4; font-size: 12px; margin-top: 8px; }
+`;
+
+/**
+ * Renders the transcript as a self-contained HTML document
+ * All styles are inlined so the file renders offline
+ */
+function renderHtml(ticket: Ticket, messages: TicketMessage[]): string {
+  const title = `Ticket #${ticket.ticketNumber} (${escapeHtml(
+    ticket.categoryKey
+  )})`;
+
+  const meta = [
+    `Opened by ${escapeHtml(ticket.creatorId)} at ${formatDate(
+      ticket.createdAt
+    )}`,
+    ticket.closedAt
+      ? `Closed by ${escapeHtml(ticket.closedBy ?? "unknown")} at ${formatDate(
+          ticket.closedAt
+        )}`
+      : null,
+    ticket.closeReason ? `Reason: ${escapeHtml(ticket.closeReason)}` : null,
+    `${messages.length} message(s)`,
+  ]
+    .filter(Boolean)
+    .map((line) => `<div>${line}</div>`)
+    .join("");
+
+  const body = messages
+    .map((message) => {
+      const edited = message.editedAt
+        ? `<span class="edited" title="${formatDate(
+            message.editedAt
+          )}">(edited)</span>`
+        : "";
+
+      const content = message.content
+        ? `<div class="content">${escapeHtml(message.content)}</div>`
+        : "";
+
+      const attachments = message.attachments
+        .map(
+          (attachment) =>
+            `<div class="attachment">📎 <a href="${escapeHtml(
+              attachment.url
+            )}">${escapeHtml(attachment.name)}</a></div>`
+        )
+        .join("");
+
+      const embeds = message.embeds.map(renderEmbedHtml).join("");
+
+      return (
+        `<div class="message" id="m-${escapeHtml(message.messageId)}">` +
+        `<div class="message-header">` +
+        `<span class="author" title="${escapeHtml(
+          message.authorId
+        )}">${escapeHtml(message.authorUsername)}</span>` +
+        `<span class="timestamp">${formatDate(message.createdAt)}</span>` +
+        edited +
+        `</div>` +
+        content +
+        attachments +
+        embeds +
+        `</div>`
+      );
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header><h1>${title}</h1>${meta}</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Transcript renderers keyed by archive format
+ */
+export const transcriptRenderers: Record<
+  TicketArchiveFormat,
+  TranscriptRenderer
+> = {
+  json: renderJson,
+  txt: renderTxt,
+  html: renderHtml,
+};
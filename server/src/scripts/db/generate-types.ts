@@ -0,0 +1,449 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import db from "@/db";
+import logger from "@/logger";
+
+/**
+ * Generates BaseQueries config types from the live database schema
+ *
+ * Introspects information_schema and writes one file per table to
+ * src/db/types/generated, containing the Row, Entity, Create, Update,
+ * Filters and Identifier types, a QueryConfig combining them and a
+ * COLUMN_MAP from entity keys to column names.
+ *
+ * Generated types use the column types only. The types in src/db/types are
+ * derived from them with Narrow (status unions, JSONB shapes), so a schema
+ * change reaches the query classes once the files are regenerated.
+ *
+ * @example
+ *   npm run util:generate-types              # write the generated files
+ *   npm run util:generate-types -- --check   # fail if the files are stale
+ */
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const OUTPUT_DIR = path.join(__dirname, "..", "..", "db", "types", "generated");
+
+/**
+ * Tables managed outside of BaseQueries
+ */
+const EXCLUDED_TABLES = new Set(["schema_migrations"]);
+
+const HEADER =
+  "// This file is generated by `npm run util:generate-types`, do not edit it.\n" +
+  "// Run the script again after changing the database schema.\n";
+
+/**
+ * TypeScript types of PostgreSQL types as parsed by pg
+ * int8 and numeric are returned as strings to avoid losing precision
+ */
+const TYPE_MAP: Record<string, string> = {
+  int2: "number",
+  int4: "number",
+  float4: "number",
+  float8: "number",
+  oid: "number",
+  int8: "string",
+  numeric: "string",
+  money: "string",
+  text: "string",
+  varchar: "string",
+  bpchar: "string",
+  char: "string",
+  name: "string",
+  uuid: "string",
+  citext: "string",
+  inet: "string",
+  cidr: "string",
+  time: "string",
+  timetz: "string",
+  bool: "boolean",
+  date: "Date",
+  timestamp: "Date",
+  timestamptz: "Date",
+  bytea: "Buffer",
+  json: "unknown",
+  jsonb: "unknown",
+};
+
+interface ColumnInfo {
+  table_name: string;
+  column_name: string;
+  udt_name: string;
+  is_nullable: "YES" | "NO";
+  column_default: string | null;
+  is_identity: "YES" | "NO";
+  identity_generation: "ALWAYS" | "BY DEFAULT" | null;
+  is_generated: "ALWAYS" | "NEVER";
+}
+
+interface KeyInfo {
+  table_name: string;
+  constraint_name: string;
+  constraint_type: "PRIMARY KEY" | "UNIQUE";
+  column_name: string;
+}
+
+interface TableInfo {
+  name: string;
+  columns: ColumnInfo[];
+  /** Column names of the primary key */
+  primaryKey: string[];
+  /** Column names of each unique constraint, primary key first */
+  uniqueKeys: string[][];
+}
+
+/**
+ * Reads columns and unique keys of every table in the public schema
+ */
+async function introspect(): Promise<TableInfo[]> {
+  const columns = await db.query<ColumnInfo>(`
+    SELECT
+      c.table_name,
+      c.column_name,
+      c.udt_name,
+      c.is_nullable,
+      c.column_default,
+      c.is_identity,
+      c.identity_generation,
+      c.is_generated
+    FROM information_schema.columns AS c
+    JOIN information_schema.tables AS t
+      ON t.table_schema = c.table_schema
+      AND t.table_name = c.table_name
+    WHERE c.table_schema = 'public'
+      AND t.table_type = 'BASE TABLE'
+    ORDER BY c.table_name, c.ordinal_position
+  `);
+
+  const keys = await db.query<KeyInfo>(`
+    SELECT
+      tc.table_name,
+      tc.constraint_name,
+      tc.constraint_type,
+      kcu.column_name
+    FROM information_schema.table_constraints AS tc
+    JOIN information_schema.key_column_usage AS kcu
+      ON tc.constraint_name = kcu.constraint_name
+      AND tc.table_schema = kcu.table_schema
+      AND tc.table_name = kcu.table_name
+    WHERE tc.table_schema = 'public'
+      AND tc.constraint_type IN ('PRIMARY KEY', 'UNIQUE')
+    ORDER BY
+      tc.table_name,
+      tc.constraint_type,
+      tc.constraint_name,
+      kcu.ordinal_position
+  `);
+
+  const tables = new Map<string, TableInfo>();
+
+  for (const column of columns.rows) {
+    if (EXCLUDED_TABLES.has(column.table_name)) continue;
+
+    let table = tables.get(column.table_name);
+    if (!table) {
+      table = {
+        name: column.table_name,
+        columns: [],
+        primaryKey: [],
+        uniqueKeys: [],
+      };
+      tables.set(column.table_name, table);
+    }
+    table.columns.push(column);
+  }
+
+  const constraints = new Map<
+    string,
+    { table: TableInfo; columns: string[] }
+  >();
+
+  for (const key of keys.rows) {
+    const table = tables.get(key.table_name);
+    if (!table) continue;
+
+    const id = `${key.table_name}.${key.constraint_name}`;
+    let constraint = constraints.get(id);
+    if (!constraint) {
+      constraint = { table, columns: [] };
+      constraints.set(id, constraint);
+
+      // "PRIMARY KEY" sorts before "UNIQUE", so the primary key comes first
+      table.uniqueKeys.push(constraint.columns);
+      if (key.constraint_type === "PRIMARY KEY") {
+        table.primaryKey = constraint.columns;
+      }
+    }
+    constraint.columns.push(key.column_name);
+  }
+
+  return [...tables.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function snakeToCamel(str: string): string {
+  return str.replace(/_([a-z0-9])/g, (_, letter) => letter.toUpperCase());
+}
+
+function toPascalCase(str: string): string {
+  const camel = snakeToCamel(str);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Maps a column to its TypeScript type, without null
+ * Array columns have a udt_name prefixed with an underscore (e.g. _text)
+ */
+function getTsType(column: ColumnInfo): string {
+  if (column.udt_name.startsWith("_")) {
+    const elementType = TYPE_MAP[column.udt_name.slice(1)] ?? "unknown";
+    return `${elementType}[]`;
+  }
+
+  return TYPE_MAP[column.udt_name] ?? "unknown";
+}
+
+function isNullable(column: ColumnInfo): boolean {
+  return column.is_nullable === "YES";
+}
+
+/**
+ * Columns the database always computes and that cannot be written
+ */
+function isReadOnly(column: ColumnInfo): boolean {
+  return (
+    column.is_generated === "ALWAYS" || column.identity_generation === "ALWAYS"
+  );
+}
+
+/**
+ * Columns that may be omitted on insert
+ */
+function isOptionalOnCreate(column: ColumnInfo): boolean {
+  return (
+    column.column_default !== null ||
+    column.is_identity === "YES" ||
+    isNullable(column)
+  );
+}
+
+function renderInterface(
+  name: string,
+  fields: { key: string; type: string; optional?: boolean }[]
+): string {
+  if (fields.length === 0) {
+    return `export type ${name} = never;\n`;
+  }
+
+  const lines = fields.map(
+    (field) => `  ${field.key}${field.optional ? "?" : ""}: ${field.type};`
+  );
+  return `export interface ${name} {\n${lines.join("\n")}\n}\n`;
+}
+
+/**
+ * Renders the generated module of a table
+ */
+function renderTable(table: TableInfo): string {
+  const name = toPascalCase(table.name);
+  const columns = table.columns;
+  const primaryKey = new Set(table.primaryKey);
+  const nullableType = (column: ColumnInfo) =>
+    isNullable(column) ? `${getTsType(column)} | null` : getTsType(column);
+
+  const sections: string[] = [];
+
+  sections.push(
+    `/**\n * Raw ${table.name} row as returned by PostgreSQL\n */\n` +
+      renderInterface(
+        `${name}Row`,
+        columns.map((column) => ({
+          key: column.column_name,
+          type: nullableType(column),
+        }))
+      )
+  );
+
+  sections.push(
+    `/**\n * Entity of the ${table.name} table with camelCase keys\n */\n` +
+      renderInterface(
+        `${name}Entity`,
+        columns.map((column) => ({
+          key: snakeToCamel(column.column_name),
+          type: nullableType(column),
+        }))
+      )
+  );
+
+  const identifiers = table.uniqueKeys.map(
+    (key) =>
+      `{ ${key
+        .map((columnName) => {
+          const column = columns.find((c) => c.column_name === columnName)!;
+          return `${snakeToCamel(columnName)}: ${getTsType(column)}`;
+        })
+        .join("; ")} }`
+  );
+  const identifierType = identifiers.join(" | ") || "never";
+  const identifierLine = `export type ${name}Identifier = ${identifierType};\n`;
+  sections.push(
+    // Long unions are split over multiple lines, matching Prettier
+    identifierLine.length > 81
+      ? `export type ${name}Identifier =\n  | ${identifiers.join("\n  | ")};\n`
+      : identifierLine
+  );
+
+  sections.push(
+    renderInterface(
+      `${name}Filters`,
+      columns.map((column) => ({
+        key: snakeToCamel(column.column_name),
+        type: getTsType(column),
+      }))
+    )
+  );
+
+  sections.push(
+    renderInterface(
+      `${name}Create`,
+      columns
+        .filter((column) => !isReadOnly(column))
+        .map((column) => ({
+          key: snakeToCamel(column.column_name),
+          type: nullableType(column),
+          optional: isOptionalOnCreate(column),
+        }))
+    )
+  );
+
+  sections.push(
+    renderInterface(
+      `${name}Update`,
+      columns
+        .filter(
+          (column) => !isReadOnly(column) && !primaryKey.has(column.column_name)
+        )
+        .map((column) => ({
+          key: snakeToCamel(column.column_name),
+          type: nullableType(column),
+        }))
+    )
+  );
+
+  sections.push(
+    `export type ${name}QueryConfig = {\n` +
+      `  Entity: ${name}Entity;\n` +
+      `  DbEntity: ${name}Row;\n` +
+      `  Identifier: ${name}Identifier;\n` +
+      `  Filters: ${name}Filters;\n` +
+      `  Update: ${name}Update;\n` +
+      `  Create: ${name}Create;\n` +
+      `};\n`
+  );
+
+  sections.push(
+    `/**\n * Entity keys of ${table.name} mapped to their column names\n */\n` +
+      `export const ${table.name.toUpperCase()}_COLUMN_MAP = {\n` +
+      columns
+        .map(
+          (column) =>
+            `  ${snakeToCamel(column.column_name)}: "${column.column_name}",`
+        )
+        .join("\n") +
+      `\n} as const;\n`
+  );
+
+  return `${HEADER}\n${sections.join("\n")}`;
+}
+
+function getFileName(table: TableInfo): string {
+  return `${table.name.replace(/_/g, "-")}.generated.ts`;
+}
+
+/**
+ * Renders every generated file, keyed by file name
+ */
+function render(tables: TableInfo[]): Map<string, string> {
+  const files = new Map<string, string>();
+
+  for (const table of tables) {
+    files.set(getFileName(table), renderTable(table));
+  }
+
+  const exports = tables
+    .map(
+      (table) => `export * from "./${getFileName(table).replace(/\.ts$/, "")}";`
+    )
+    .join("\n");
+  files.set("index.ts", `${HEADER}\n${exports}\n`);
+
+  return files;
+}
+
+/**
+ * Lists generated files that are missing, outdated or no longer generated
+ */
+function findStaleFiles(files: Map<string, string>): string[] {
+  const stale: string[] = [];
+
+  for (const [fileName, content] of files) {
+    const filePath = path.join(OUTPUT_DIR, fileName);
+
+    if (!fs.existsSync(filePath)) {
+      stale.push(`${fileName} (missing)`);
+    } else if (fs.readFileSync(filePath, "utf-8") !== content) {
+      stale.push(`${fileName} (outdated)`);
+    }
+  }
+
+  if (fs.existsSync(OUTPUT_DIR)) {
+    for (const fileName of fs.readdirSync(OUTPUT_DIR)) {
+      if (!files.has(fileName)) {
+        stale.push(`${fileName} (no matching table)`);
+      }
+    }
+  }
+
+  return stale;
+}
+
+async function run(): Promise<void> {
+  const check = process.argv.slice(2).includes("--check");
+  const files = render(await introspect());
+
+  if (check) {
+    const stale = findStaleFiles(files);
+
+    if (stale.length > 0) {
+      console.error("Generated database types are stale:");
+      for (const file of stale) console.error(`  ${file}`);
+      console.error("Run `npm run util:generate-types` to update them.");
+      process.exitCode = 1;
+    } else {
+      console.log("Generated database types are up to date");
+    }
+    return;
+  }
+
+  fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const [fileName, content] of files) {
+    fs.writeFileSync(path.join(OUTPUT_DIR, fileName), content, "utf-8");
+  }
+
+  console.log(
+    `Generated types for ${files.size - 1} table(s) in ${OUTPUT_DIR}`
+  );
+}
+
+run()
+  .catch((error) => {
+    console.error("Type generation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.end();
+    logger.close();
+  });
@@ -0,0 +1,94 @@
+import db from "@/db";
+import logger from "@/logger";
+import { migrator, MigrationError, formatMigration } from "@/db/migrations";
+
+/**
+ * Applies or reverts versioned SQL migrations
+ *
+ * @example
+ *   npm run util:migrate              # apply all pending migrations
+ *   npm run util:migrate -- up 3      # apply pending migrations up to version 3
+ *   npm run util:migrate -- down      # revert the last applied migration
+ *   npm run util:migrate -- down 2    # revert the last 2 applied migrations
+ *   npm run util:migrate -- status    # list migrations and their state
+ */
+const [command = "up", arg] = process.argv.slice(2);
+
+/**
+ * Parses a version or step count argument
+ *
+ * @throws MigrationError if the argument is not a positive integer
+ */
+function parseCount(value: string, description: string): number {
+  if (!/^\d+$/.test(value) || Number(value) === 0) {
+    throw new MigrationError(
+      `Invalid ${description} '${value}', expected a positive integer`
+    );
+  }
+
+  return Number(value);
+}
+
+async function run(): Promise<void> {
+  switch (command) {
+    case "up": {
+      const applied = await migrator.up(
+        arg ? parseCount(arg, "target version") : undefined
+      );
+      console.log(
+        applied.length > 0
+          ? `Applied ${applied.length} migration(s)`
+          : "Database is up to date"
+      );
+      break;
+    }
+
+    case "down": {
+      const reverted = await migrator.down(
+        arg ? parseCount(arg, "number of steps") : 1
+      );
+      console.log(`Reverted ${reverted.length} migration(s)`);
+      break;
+    }
+
+    case "status": {
+      const statuses = await migrator.status();
+
+      if (statuses.length === 0) {
+        console.log("No migrations found");
+        break;
+      }
+
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt
+          ? status.appliedAt.toISOString()
+          : "-";
+        console.log(
+          `${formatMigration(status).padEnd(35)} ${status.state.padEnd(
+            8
+          )} ${appliedAt}`
+        );
+      }
+      break;
+    }
+
+    default:
+      console.error(`Unknown command '${command}'. Use up, down or status.`);
+      process.exitCode = 1;
+  }
+}
+
+run()
+  .catch((error) => {
+    if (error instanceof MigrationError) {
+      console.error(error.message);
+      if (error.cause) console.error(error.cause);
+    } else {
+      console.error("Migration failed:", error);
+    }
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.end();
+    logger.close();
+  });
@@ -1,8 +1,9 @@
-import { env } from "@/config/env/env.config";
+import { env, envMode } from "@/config/env/env.config";
 import "./logger.global";
 import http from "node:http";
 import { createApp } from "./app";
-import mainBot from "./discord/bots/main";
+import mainBot, { startMainBot } from "./discord/bots/main";
+import { migrator, formatMigration } from "./db/migrations";
 
 const PORT = env.PORT;
 
@@ -57,16 +58,66 @@ function setupProcessHandlers(httpServer: http.Server): void {
   });
 }
 
+/**
+ * Ensures the database schema is up to date
+ *
+ * Exits the process if migrations are pending, were edited after being
+ * applied or were applied from files that no longer exist (e.g. a rollback
+ * of the code without reverting the schema), so production never runs
+ * against a schema it does not know. A missing
+ * migrations directory fails as well (see Migrator.loadMigrations), instead
+ * of passing with nothing to check.
+ *
+ * @returns Promise resolving when every migration is applied unchanged
+ */
+async function assertMigrationsApplied(): Promise<void> {
+  const statuses = await migrator.status();
+  const pending = statuses.filter((status) => status.state === "pending");
+  const changed = statuses.filter((status) => status.state === "changed");
+  const missing = statuses.filter((status) => status.state === "missing");
+
+  if (changed.length > 0) {
+    logger.error(
+      `Refusing to start: ${changed.length} migration(s) were modified after being applied:`,
+      changed.map(formatMigration).join(", ")
+    );
+    process.exit(1);
+  }
+
+  if (missing.length > 0) {
+    logger.error(
+      `Refusing to start: ${missing.length} applied migration(s) have no migration file:`,
+      missing.map(formatMigration).join(", ")
+    );
+    process.exit(1);
+  }
+
+  if (pending.length > 0) {
+    logger.error(
+      `Refusing to start: ${pending.length} pending migration(s):`,
+      pending.map(formatMigration).join(", ")
+    );
+    logger.error("Run `npm run util:migrate` before starting the server");
+    process.exit(1);
+  }
+}
+
 /**
  * Initializes and starts the HTTP server
  *
  * This function:
- * 1. Creates the Express application
- * 2. Creates an HTTP server instance
- * 3. Sets up process handlers for graceful shutdown
- * 4. Starts listening on the configured PORT
+ * 1. Refuses to start in production while migrations are pending
+ * 2. Creates the Express application
+ * 3. Creates an HTTP server instance
+ * 4. Sets up process handlers for graceful shutdown
+ * 5. Starts listening on the configured PORT
+ * 6. Starts the main Discord bot
  */
-function start(): void {
+async function start(): Promise<void> {
+  if (envMode.isProd) {
+    await assertMigrationsApplied();
+  }
+
   const app = createApp();
   const httpServer = http.createServer(app);
 
@@ -75,8 +126,11 @@ function start(): void {
   httpServer.listen(PORT, () => {
     logger.info(`Server started at http://localhost:${PORT}`);
   });
-}
 
-start();
+  await startMainBot();
+}
 
-logger.info(mainBot);
+start().catch((error) => {
+  logger.error("Failed to start server:", error);
+  process.exit(1);
+});
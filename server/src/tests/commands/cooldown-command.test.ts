@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ChatInputCommandInteraction, MessageFlags } from "discord.js";
+import {
+  cooldownManager,
+  type CooldownConfig,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import { MemoryCooldownStore } from "@/discord/utils/cooldown/cooldown-store";
+import { execute } from "@/discord/bots/main/interactions/slash-commands/cooldown";
+
+const target = { id: "100", tag: "target#0001" };
+const otherUser = { userId: "101", channelId: "200", guildId: "300" };
+
+const configs: Record<string, CooldownConfig> = {
+  daily: { type: "user", duration: 60 },
+  announce: { type: "global", duration: 60 },
+  vote: { type: "guild", duration: 60 },
+  poll: { type: "channel", duration: 60 },
+};
+
+/**
+ * /cooldown interaction with the parts the command uses
+ */
+function createInteraction(subcommand: "set" | "extend", command: string) {
+  return {
+    channelId: "200",
+    guildId: "300",
+    options: {
+      getSubcommand: () => subcommand,
+      getUser: () => target,
+      getString: () => command,
+      getInteger: () => 600,
+    },
+    reply: vi.fn().mockResolvedValue(undefined),
+  } as unknown as ChatInputCommandInteraction & {
+    reply: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe("/cooldown set and extend", () => {
+  beforeEach(() => {
+    cooldownManager.setStore(new MemoryCooldownStore());
+
+    for (const [name, cfg] of Object.entries(configs)) {
+      cooldownManager.registerCommand(name, cfg);
+    }
+  });
+
+  it("blocks only the target of a per-user cooldown", async () => {
+    await execute(createInteraction("set", "daily"));
+
+    const context = { ...otherUser, userId: target.id };
+    expect(
+      (await cooldownManager.check("daily", configs.daily, context)).remaining
+    ).toBeGreaterThan(0);
+    expect(
+      (await cooldownManager.check("daily", configs.daily, otherUser)).remaining
+    ).toBeNull();
+  });
+
+  it.each(["announce", "vote", "poll"])(
+    "refuses the shared %s cooldown without blocking other users",
+    async (command) => {
+      for (const subcommand of ["set", "extend"] as const) {
+        const interaction = createInteraction(subcommand, command);
+
+        await execute(interaction);
+
+        expect(interaction.reply).toHaveBeenCalledWith(
+          expect.objectContaining({ flags: MessageFlags.Ephemeral })
+        );
+      }
+
+      expect(
+        (await cooldownManager.check(command, configs[command], otherUser))
+          .remaining
+      ).toBeNull();
+      expect((await cooldownManager.getAllCooldowns()).size).toBe(0);
+    }
+  );
+});
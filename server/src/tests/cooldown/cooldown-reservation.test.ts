@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ChatInputCommandInteraction,
+  Client,
+  Collection,
+  Interaction,
+} from "discord.js";
+import {
+  CooldownManager,
+  cooldownManager,
+  type CooldownConfig,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import { MemoryCooldownStore } from "@/discord/utils/cooldown/cooldown-store";
+import { registerInteractionHandler } from "@/discord/bots/main/handlers/interaction-handler";
+import type { CommandModule } from "@/discord/bots/main/loaders/command-loader";
+import type { ContextMenuModule } from "@/discord/bots/main/loaders/context-menu-loader";
+
+const context = { userId: "100", channelId: "200", guildId: "300" };
+
+const charges: CooldownConfig = {
+  type: "user",
+  duration: 60,
+  strategy: "charges",
+  uses: 3,
+};
+
+describe("CooldownManager.reserve", () => {
+  let manager: CooldownManager;
+
+  const reserveInParallel = (cfg: CooldownConfig, count: number) =>
+    Promise.all(
+      Array.from({ length: count }, () =>
+        manager.reserve("daily", cfg, context)
+      )
+    );
+
+  const available = async (cfg: CooldownConfig) =>
+    (await reserveInParallel(cfg, 10)).filter((r) => r.blocked === null).length;
+
+  beforeEach(() => {
+    manager = new CooldownManager(new MemoryCooldownStore());
+  });
+
+  it.each<[string, CooldownConfig, number]>([
+    ["fixed", { type: "user", duration: 60 }, 1],
+    ["charges", charges, 3],
+    ["sliding", { ...charges, strategy: "sliding" }, 3],
+  ])(
+    "lets only the allowed parallel %s reserves through",
+    async (_, cfg, allowed) => {
+      expect(await available(cfg)).toBe(allowed);
+    }
+  );
+
+  it("gives released charges back to later reserves", async () => {
+    const reservations = await reserveInParallel(charges, 10);
+    const reserved = reservations.filter((r) => r.blocked === null);
+
+    await Promise.all(reserved.slice(0, 2).map((r) => r.release()));
+    reserved[2].commit();
+
+    expect(await available(charges)).toBe(2);
+  });
+
+  it("refunds a reservation only once", async () => {
+    const [reservation] = await reserveInParallel(charges, 3);
+
+    await Promise.all([reservation.release(), reservation.release()]);
+
+    expect(await available(charges)).toBe(1);
+  });
+
+  it("keeps committed charges used", async () => {
+    const reservations = await reserveInParallel(charges, 3);
+    reservations.forEach((r) => r.commit());
+
+    await Promise.all(reservations.map((r) => r.release()));
+
+    expect(await available(charges)).toBe(0);
+  });
+
+  it("does not refund blocked reservations", async () => {
+    const reservations = await reserveInParallel(charges, 5);
+    const blocked = reservations.filter((r) => r.blocked !== null);
+
+    await Promise.all(blocked.map((r) => r.release()));
+
+    expect(blocked).toHaveLength(2);
+    expect(await available(charges)).toBe(0);
+  });
+
+  it("keeps the charge of a release until the failure penalty is over", async () => {
+    const cfg: CooldownConfig = { ...charges, uses: 1, failurePenalty: 30 };
+    const [reservation] = await reserveInParallel(cfg, 1);
+
+    await reservation.release();
+    const [retry] = await reserveInParallel(cfg, 1);
+
+    expect(retry.blocked?.remaining).toBeGreaterThan(29);
+    expect(retry.blocked?.remaining).toBeLessThanOrEqual(30);
+  });
+});
+
+describe("interaction handler cooldowns", () => {
+  let dispatch: (interaction: Interaction) => Promise<void>;
+  let command: CommandModule;
+  let contextMenu: ContextMenuModule;
+  let run: () => Promise<void>;
+
+  /**
+   * Chat input or context menu interaction with the parts the handler uses
+   */
+  function createInteraction(isContextMenu = false) {
+    return {
+      commandName: "daily",
+      user: { id: "100", tag: "user#0001" },
+      channelId: "200",
+      guildId: null,
+      guild: null,
+      member: null,
+      replied: false,
+      deferred: false,
+      isChatInputCommand: () => !isContextMenu,
+      isContextMenuCommand: () => isContextMenu,
+      reply: vi.fn().mockResolvedValue(undefined),
+      followUp: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ChatInputCommandInteraction & {
+      reply: ReturnType<typeof vi.fn>;
+      followUp: ReturnType<typeof vi.fn>;
+    };
+  }
+
+  const dispatchInParallel = async (count: number, isContextMenu = false) => {
+    const interactions = Array.from({ length: count }, () =>
+      createInteraction(isContextMenu)
+    );
+    await Promise.all(interactions.map((interaction) => dispatch(interaction)));
+    return interactions;
+  };
+
+  beforeEach(() => {
+    cooldownManager.setStore(new MemoryCooldownStore());
+
+    command = {
+      data: {} as CommandModule["data"],
+      execute: vi.fn(() => run()),
+      cooldown: { ...charges, uses: 2 },
+    };
+    contextMenu = {
+      data: {} as ContextMenuModule["data"],
+      execute: vi.fn(() => run()),
+      cooldown: { ...charges, uses: 2 },
+    };
+    run = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    const client = {
+      on: (_: string, listener: typeof dispatch) => (dispatch = listener),
+    } as unknown as Client;
+    registerInteractionHandler(
+      client,
+      new Collection([["daily", command]]),
+      new Collection(),
+      new Collection([["daily", contextMenu]])
+    );
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it("runs the command only as often as charges allow", async () => {
+    const interactions = await dispatchInParallel(6);
+
+    expect(command.execute).toHaveBeenCalledTimes(2);
+    expect(
+      interactions.filter((interaction) => interaction.reply.mock.calls.length)
+    ).toHaveLength(4);
+  });
+
+  it("gives the charge back when the command fails", async () => {
+    run = () => Promise.reject(new Error("failed"));
+    await dispatchInParallel(2);
+
+    run = () => Promise.resolve();
+    await dispatchInParallel(4);
+
+    expect(command.execute).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps context menu cooldowns apart from slash commands", async () => {
+    await dispatchInParallel(3);
+    await dispatchInParallel(3, true);
+
+    expect(command.execute).toHaveBeenCalledTimes(2);
+    expect(contextMenu.execute).toHaveBeenCalledTimes(2);
+    expect(
+      (await cooldownManager.getUserCooldowns("100")).map(
+        (entry) => entry.commandName
+      )
+    ).toEqual(expect.arrayContaining(["daily", "ctx:daily"]));
+  });
+
+  it("logs failed error replies instead of rejecting", async () => {
+    const logError = vi.spyOn(logger, "error").mockImplementation(() => {});
+    const interaction = createInteraction();
+    const replyError = new Error("Unknown interaction");
+    interaction.reply.mockRejectedValue(replyError);
+    run = () => Promise.reject(new Error("failed"));
+
+    await expect(dispatch(interaction)).resolves.toBeUndefined();
+    expect(logError).toHaveBeenCalledWith(
+      "Failed to answer daily:",
+      replyError
+    );
+  });
+
+  it("follows up on deferred interactions that fail", async () => {
+    const interaction = createInteraction();
+    run = async () => {
+      Object.assign(interaction, { deferred: true });
+      throw new Error("failed");
+    };
+
+    await dispatch(interaction);
+
+    expect(interaction.reply).not.toHaveBeenCalled();
+    expect(interaction.followUp).toHaveBeenCalledOnce();
+  });
+
+  it("logs failed replies when the cooldown store is unavailable", async () => {
+    const logError = vi.spyOn(logger, "error").mockImplementation(() => {});
+    vi.spyOn(cooldownManager, "reserve").mockRejectedValue(
+      new Error("store down")
+    );
+    const interaction = createInteraction();
+    const replyError = new Error("Unknown interaction");
+    interaction.reply.mockRejectedValue(replyError);
+
+    await expect(dispatch(interaction)).resolves.toBeUndefined();
+    expect(command.execute).not.toHaveBeenCalled();
+    expect(logError).toHaveBeenCalledWith(
+      "Failed to answer daily:",
+      replyError
+    );
+  });
+});
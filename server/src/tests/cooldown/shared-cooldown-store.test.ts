@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import pg from "pg";
+import path from "node:path";
+import os from "node:os";
+import { CooldownQueries } from "@/db/queries/cooldowns.queries";
+import {
+  CooldownManager,
+  getContextMenuCooldownName,
+  type CooldownConfig,
+} from "@/discord/utils/cooldown/cooldown-manager";
+import type { CooldownEntry } from "@/discord/utils/cooldown/cooldown-store";
+import { PostgresCooldownStore } from "@/discord/utils/cooldown/postgres-cooldown-store";
+import { SharedCooldownStore } from "@/discord/utils/cooldown/shared-cooldown-store";
+import {
+  createTestDatabase,
+  type TestDatabase,
+} from "@/tests/helpers/test-database";
+
+const context = { userId: "100", channelId: "200", guildId: "300" };
+
+/**
+ * Entry with one use added, used to count the updates that were stored
+ */
+function addUse(entry: CooldownEntry | null): CooldownEntry {
+  const now = Date.now();
+
+  return {
+    key: "counter:user:100",
+    commandName: "counter",
+    type: "user",
+    userId: "100",
+    startedAt: entry?.startedAt ?? now,
+    expiresAt: now + 60_000,
+    uses: [...(entry?.uses ?? []), now],
+  };
+}
+
+describe("SharedCooldownStore", () => {
+  let database: TestDatabase;
+  let otherPool: pg.Pool;
+  let first: SharedCooldownStore;
+  let second: SharedCooldownStore;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    // Second pool to the same database, like another bot process would have
+    otherPool = new pg.Pool({ ...database.pool.options, max: 5 });
+    first = new SharedCooldownStore(new CooldownQueries(database.pool));
+    second = new SharedCooldownStore(new CooldownQueries(otherPool));
+  });
+
+  afterAll(async () => {
+    await otherPool.end();
+    await database.close();
+  });
+
+  beforeEach(async () => {
+    await database.pool.query("TRUNCATE cooldowns");
+  });
+
+  it("serializes parallel updates of a key across instances", async () => {
+    await Promise.all(
+      Array.from({ length: 30 }, (_, index) =>
+        (index % 2 === 0 ? first : second).update("counter:user:100", addUse)
+      )
+    );
+
+    expect((await first.get("counter:user:100"))?.uses).toHaveLength(30);
+    expect(await second.get("counter:user:100")).toEqual(
+      await first.get("counter:user:100")
+    );
+  });
+
+  it("keeps the current entry when the update returns null", async () => {
+    await first.update("counter:user:100", addUse);
+    await second.update("counter:user:100", () => null);
+
+    expect((await first.get("counter:user:100"))?.uses).toHaveLength(1);
+  });
+
+  it("hands out only the allowed charges to parallel reserves", async () => {
+    const cfg: CooldownConfig = {
+      type: "user",
+      duration: 60,
+      strategy: "charges",
+      uses: 3,
+    };
+    const managers = [new CooldownManager(first), new CooldownManager(second)];
+
+    const reservations = await Promise.all(
+      Array.from({ length: 12 }, (_, index) =>
+        managers[index % 2].reserve("daily", cfg, context)
+      )
+    );
+
+    expect(reservations.filter((r) => r.blocked === null)).toHaveLength(3);
+    expect(
+      (await managers[0].reserve("daily", cfg, context)).blocked?.charges
+    ).toBe(0);
+  });
+
+  it("sees entries written and deleted by the other instance", async () => {
+    await first.update("counter:user:100", addUse);
+
+    expect(await second.list()).toHaveLength(1);
+    expect(await second.deleteByUser("100")).toBe(1);
+    expect(await first.get("counter:user:100")).toBeNull();
+  });
+
+  it.each([
+    ["SharedCooldownStore", SharedCooldownStore],
+    ["PostgresCooldownStore", PostgresCooldownStore],
+  ])(
+    "%s stores context menus with the longest name Discord allows",
+    async (_, Store) => {
+      const queries = new CooldownQueries(database.pool);
+      const name = getContextMenuCooldownName("x".repeat(32));
+
+      await new CooldownManager(new Store(queries)).reserve(
+        name,
+        { type: "user", duration: 60 },
+        context
+      );
+
+      expect((await queries.findActive()).map((c) => c.commandName)).toEqual([
+        name,
+      ]);
+    }
+  );
+
+  describe("when the database is unavailable", () => {
+    let brokenPool: pg.Pool;
+    let broken: SharedCooldownStore;
+
+    beforeAll(() => {
+      brokenPool = new pg.Pool({
+        host: path.join(os.tmpdir(), "no-database-here"),
+        port: 5432,
+        connectionTimeoutMillis: 1000,
+      });
+      broken = new SharedCooldownStore(new CooldownQueries(brokenPool));
+    });
+
+    afterAll(() => brokenPool.end());
+
+    it("fails closed on reads and writes", async () => {
+      await expect(broken.get("counter:user:100")).rejects.toThrow();
+      await expect(broken.list()).rejects.toThrow();
+      await expect(broken.update("counter:user:100", addUse)).rejects.toThrow();
+      await expect(broken.deleteByCommand("counter")).rejects.toThrow();
+    });
+
+    it("rejects reservations instead of allowing the command", async () => {
+      const manager = new CooldownManager(broken);
+
+      await expect(
+        manager.reserve("daily", { type: "user", duration: 60 }, context)
+      ).rejects.toThrow();
+    });
+
+    it("differs from PostgresCooldownStore, which fails open", async () => {
+      const store = new PostgresCooldownStore(new CooldownQueries(brokenPool));
+
+      await expect(
+        store.update("counter:user:100", addUse)
+      ).resolves.toBeUndefined();
+      expect((await store.get("counter:user:100"))?.uses).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Pool } from "pg";
+import { BaseQueries } from "@/db/queries/base.queries";
+import { DatabaseError } from "@/db/utils/errors";
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+type ItemQueryConfig = {
+  Entity: Item;
+  DbEntity: Item;
+  Identifier: { id: number };
+  Filters: Item;
+  Update: Item;
+  Create: Item;
+};
+
+class ItemQueries extends BaseQueries<ItemQueryConfig> {
+  protected readonly table = "items";
+  protected readonly COLUMN_MAP = { id: "id", name: "name" };
+
+  rename(id: number, change: () => Promise<void>) {
+    return this.audit("update", { id }, change);
+  }
+}
+
+class DomainError extends Error {}
+
+describe("BaseQueries.audit", () => {
+  let query: ReturnType<typeof vi.fn>;
+  let items: ItemQueries;
+
+  beforeEach(() => {
+    // Fake client, not a pg.Pool, so audit() runs without a transaction
+    query = vi
+      .fn()
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "before" }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "after" }] })
+      .mockResolvedValue({ rows: [], rowCount: 1 });
+    items = new ItemQueries({ query } as unknown as Pool);
+  });
+
+  it("rethrows errors of the change unchanged", async () => {
+    const error = new DomainError("Ticket is already closed");
+
+    await expect(items.rename(1, () => Promise.reject(error))).rejects.toBe(
+      error
+    );
+  });
+
+  it("translates errors of the lock query", async () => {
+    query.mockReset().mockRejectedValue(new Error("connection lost"));
+
+    await expect(items.rename(1, async () => {})).rejects.toBeInstanceOf(
+      DatabaseError
+    );
+  });
+
+  it("translates errors of the audit entry", async () => {
+    query
+      .mockReset()
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "before" }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "after" }] })
+      .mockRejectedValue(new Error("audit_log is full"));
+
+    await expect(items.rename(1, async () => {})).rejects.toBeInstanceOf(
+      DatabaseError
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Pool } from "pg";
+import { BaseQueries } from "@/db/queries/base.queries";
+import { InvalidQueryError } from "@/db/utils/errors";
+import type { WhereFilter } from "@/db/utils/filters";
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+type ItemQueryConfig = {
+  Entity: Item;
+  DbEntity: Item;
+  Identifier: { id: number };
+  Filters: Item;
+  Update: Item;
+  Create: Item;
+};
+
+class ItemQueries extends BaseQueries<ItemQueryConfig> {
+  protected readonly table = "items";
+  protected readonly COLUMN_MAP = { id: "id", name: "name" };
+}
+
+/**
+ * Filters that restrict nothing, each would reach every row of the table
+ */
+const MATCH_ALL_FILTERS: [string, WhereFilter<Item>][] = [
+  ["an empty filter", {}],
+  ["only undefined values", { name: undefined }],
+  ["an $or group without conditions", { $or: [{ name: undefined }] }],
+  ["an $or with an empty alternative", { $or: [{}, { name: "a" }] }],
+  ["an $and of empty groups", { $and: [{}, { id: undefined }] }],
+  ["an empty notIn list", { name: { notIn: [] } }],
+  ["operators that are all undefined", { id: { gt: undefined } }],
+];
+
+/**
+ * Groups that cannot be compiled into a condition
+ */
+const INVALID_FILTERS: [string, WhereFilter<Item>][] = [
+  ["an empty $or", { $or: [] }],
+  ["an empty $and", { $and: [] }],
+  ["a $not of an empty group", { $not: {} }],
+  ["a $not of undefined values", { $not: { name: undefined } }],
+  ["a nested empty $or", { $and: [{ id: 1 }, { $or: [] }] }],
+];
+
+describe("BaseQueries filter guards", () => {
+  let query: ReturnType<typeof vi.fn>;
+  let items: ItemQueries;
+
+  beforeEach(() => {
+    query = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+    items = new ItemQueries({ query } as unknown as Pool);
+  });
+
+  it.each(MATCH_ALL_FILTERS)("deleteAll refuses %s", async (_, filter) => {
+    await expect(items.deleteAll(filter)).rejects.toThrow(
+      "deleteAll requires at least one filter"
+    );
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it.each(MATCH_ALL_FILTERS)("updateAll refuses %s", async (_, filter) => {
+    await expect(items.updateAll({ name: "b" }, filter)).rejects.toThrow(
+      "match every record"
+    );
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("deleteAll refuses an empty filter builder", async () => {
+    await expect(items.deleteAll(items.where())).rejects.toThrow(
+      "deleteAll requires at least one filter"
+    );
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it.each(INVALID_FILTERS)(
+    "rejects %s with InvalidQueryError",
+    async (_, filter) => {
+      await expect(items.deleteAll(filter)).rejects.toThrow(InvalidQueryError);
+      await expect(items.findAll(filter)).rejects.toThrow(InvalidQueryError);
+      expect(query).not.toHaveBeenCalled();
+    }
+  );
+
+  it("updates every record when updateAll gets no filters", async () => {
+    await items.updateAll({ name: "b" });
+
+    expect(query).toHaveBeenCalledOnce();
+  });
+
+  it("finds every record with an empty filter builder", async () => {
+    await items.findAll(items.where());
+
+    expect(query).toHaveBeenCalledOnce();
+  });
+
+  it("deletes with restricting groups", async () => {
+    await items.deleteAll({
+      $or: [{ name: "a" }, { id: { gt: 1 } }],
+      $not: { name: "b" },
+    });
+
+    expect(query).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `WHERE ("name" = $1 OR "id" > $2) AND NOT ("name" = $3)`
+      ),
+      ["a", 1, "b"]
+    );
+  });
+});
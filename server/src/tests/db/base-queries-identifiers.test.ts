@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Pool } from "pg";
+import { BaseQueries } from "@/db/queries/base.queries";
+import { InvalidColumnError, InvalidQueryError } from "@/db/utils/errors";
+import { quoteIdentifier } from "@/db/utils/query-helpers";
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+type ItemQueryConfig = {
+  Entity: Item;
+  DbEntity: Item;
+  Identifier: { id: number };
+  Filters: Item;
+  Update: Item;
+  Create: Item;
+};
+
+class ItemQueries extends BaseQueries<ItemQueryConfig> {
+  protected readonly table = "items";
+  protected readonly COLUMN_MAP = { id: "id", name: "name" };
+}
+
+/**
+ * Keys that must never reach the SQL text: injection attempts and keys
+ * every object inherits from Object.prototype
+ */
+const MALICIOUS_KEYS = [
+  "id; DROP TABLE items",
+  'a"b',
+  "name = name OR 1=1 --",
+  "constructor",
+  "toString",
+  "hasOwnProperty",
+  "__proto__",
+];
+
+/**
+ * Builds an object with the key as own property, `{ [key]: value }` would
+ * set the prototype for __proto__
+ */
+const withKey = (key: string, value: unknown): never =>
+  Object.defineProperty({}, key, { value, enumerable: true }) as never;
+
+describe("BaseQueries identifier validation", () => {
+  let query: ReturnType<typeof vi.fn>;
+  let items: ItemQueries;
+
+  beforeEach(() => {
+    query = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+    items = new ItemQueries({ query } as unknown as Pool);
+  });
+
+  describe.each(MALICIOUS_KEYS)("key %j", (key) => {
+    it.each([
+      ["find", () => items.find(withKey(key, 1))],
+      ["findAll filter", () => items.findAll(withKey(key, "x"))],
+      [
+        "findAll operator filter",
+        () => items.findAll(withKey(key, { in: ["x"] })),
+      ],
+      [
+        "findAll $or filter",
+        () => items.findAll({ $or: [withKey(key, "x")] } as never),
+      ],
+      ["findAll orderBy", () => items.findAll({}, { orderBy: key })],
+      ["paginate orderBy", () => items.paginate({ orderBy: key })],
+      ["count", () => items.count(withKey(key, "x"))],
+      ["sum", () => items.sum(key as never)],
+      ["groupCount", () => items.groupCount(key as never)],
+      ["update identifier", () => items.update(withKey(key, 1), { name: "x" })],
+      ["update values", () => items.update({ id: 1 }, withKey(key, "x"))],
+      ["updateAll", () => items.updateAll(withKey(key, "x"))],
+      ["deleteAll", () => items.deleteAll(withKey(key, "x"))],
+      ["create", () => items.create(withKey(key, "x"))],
+      ["createMany", () => items.createMany([withKey(key, "x")])],
+      [
+        "upsert conflict target",
+        () => items.upsert({ id: 1, name: "x" }, key as never),
+      ],
+    ])("is rejected by %s without running SQL", async (_, run) => {
+      await expect(run()).rejects.toThrow(InvalidColumnError);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+
+  it.each(["ASC; DROP TABLE items --", "asc", "DESC NULLS FIRST", ""])(
+    "rejects sort direction %j without running SQL",
+    async (direction) => {
+      await expect(
+        items.findAll(
+          {},
+          { orderBy: "name", orderDirection: direction as never }
+        )
+      ).rejects.toThrow(InvalidQueryError);
+      await expect(
+        items.paginate({ orderBy: "name", orderDirection: direction as never })
+      ).rejects.toThrow(InvalidQueryError);
+      expect(query).not.toHaveBeenCalled();
+    }
+  );
+
+  it("accepts known keys", async () => {
+    await items.findAll(
+      { name: "x" },
+      { orderBy: "id", orderDirection: "DESC" }
+    );
+
+    expect(query).toHaveBeenCalledOnce();
+    expect(query.mock.calls[0][0]).toContain('ORDER BY "id" DESC');
+  });
+});
+
+describe("quoteIdentifier", () => {
+  it.each([
+    ["ticket_id", '"ticket_id"'],
+    ['a"b', '"a""b"'],
+    ['x" OR 1=1 --', '"x"" OR 1=1 --"'],
+    ['""', '""""""'],
+  ])("quotes %j as %j", (identifier, quoted) => {
+    expect(quoteIdentifier(identifier)).toBe(quoted);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Migrator, MigrationError } from "@/db/migrations/migrator";
+import {
+  createTestDatabase,
+  type TestDatabase,
+} from "@/tests/helpers/test-database";
+
+const TABLE = "test_migrations";
+
+// Records the advisory locks held while the migration runs
+const RECORD_LOCKS = `CREATE TABLE IF NOT EXISTS migration_locks (locks INTEGER);
+INSERT INTO migration_locks
+  SELECT COUNT(*) FROM pg_locks WHERE locktype = 'advisory' AND granted;`;
+
+describe("Migrator locking", () => {
+  let database: TestDatabase;
+  let dir: string;
+  let migrator: Migrator;
+
+  const write = (file: string, sql: string) =>
+    fs.writeFileSync(path.join(dir, file), sql);
+
+  const heldLocks = async () =>
+    Number(
+      (
+        await database.pool.query(
+          "SELECT COUNT(*) FROM pg_locks WHERE locktype = 'advisory'"
+        )
+      ).rows[0].count
+    );
+
+  beforeAll(async () => (database = await createTestDatabase()));
+  afterAll(() => database.close());
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-"));
+    migrator = new Migrator(database.pool, dir, TABLE);
+    await database.pool.query(`DROP TABLE IF EXISTS ${TABLE}, migration_locks`);
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  // PGlite serves every connection from one session, so a second process
+  // waiting for the lock cannot be simulated, only that the lock is held
+  it("holds the lock while applying and reverting migrations", async () => {
+    write("0001_first.up.sql", RECORD_LOCKS);
+    write("0001_first.down.sql", RECORD_LOCKS);
+    write("0002_second.up.sql", "SELECT 1;");
+    write("0002_second.down.sql", RECORD_LOCKS);
+
+    await migrator.up(1);
+    await migrator.up();
+    await migrator.down();
+
+    const { rows } = await database.pool.query(
+      "SELECT locks FROM migration_locks"
+    );
+    expect(rows.map((row) => row.locks)).toEqual([1, 1]);
+    expect(await heldLocks()).toBe(0);
+  });
+
+  it("releases the lock when a migration fails", async () => {
+    write("0001_broken.up.sql", "SELECT * FROM does_not_exist;");
+
+    await expect(migrator.up()).rejects.toBeInstanceOf(MigrationError);
+    expect(await heldLocks()).toBe(0);
+  });
+});
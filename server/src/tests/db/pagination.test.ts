@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { TicketQueries } from "@/db/queries/tickets.queries";
+import { InvalidQueryError } from "@/db/utils/errors";
+import {
+  createTestDatabase,
+  type TestDatabase,
+} from "@/tests/helpers/test-database";
+
+describe("BaseQueries.paginate", () => {
+  let database: TestDatabase;
+  let tickets: TicketQueries;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    tickets = new TicketQueries(database.pool);
+
+    // Ten tickets within the same millisecond, one microsecond apart
+    await database.pool.query(`
+      INSERT INTO tickets (channel_id, creator_id, category_key, ticket_number, created_at)
+      SELECT 300000000000000000 + n, '400000000000000001', 'support', n,
+             TIMESTAMPTZ '2026-01-01 12:00:00.123000+00' + n * INTERVAL '1 microsecond'
+      FROM generate_series(1, 10) AS n`);
+  });
+
+  afterAll(() => database.close());
+
+  const collectPages = async (orderDirection: "ASC" | "DESC") => {
+    const ticketNumbers: number[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = await tickets.paginate({
+        filters: { creatorId: "400000000000000001" },
+        orderBy: "createdAt",
+        orderDirection,
+        limit: 3,
+        cursor,
+      });
+
+      ticketNumbers.push(...page.items.map((ticket) => ticket.ticketNumber));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return ticketNumbers;
+  };
+
+  it("pages through rows within one millisecond in ascending order", async () => {
+    expect(await collectPages("ASC")).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it("pages through rows within one millisecond in descending order", async () => {
+    expect(await collectPages("DESC")).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+  });
+
+  it("returns entities without the cursor column", async () => {
+    const page = await tickets.paginate({ orderBy: "createdAt", limit: 1 });
+
+    expect(Object.keys(page.items[0]).sort()).toEqual(
+      Object.keys(
+        await tickets.get({ ticketId: page.items[0].ticketId })
+      ).sort()
+    );
+  });
+
+  it("rejects a malformed cursor with an InvalidQueryError", async () => {
+    await expect(
+      tickets.paginate({ orderBy: "createdAt", cursor: "not-a-cursor" })
+    ).rejects.toThrow(InvalidQueryError);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { TicketQueries } from "@/db/queries/tickets.queries";
+import {
+  createTestDatabase,
+  type TestDatabase,
+} from "@/tests/helpers/test-database";
+
+describe("TicketQueries.close", () => {
+  let database: TestDatabase;
+  let tickets: TicketQueries;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    tickets = new TicketQueries(database.pool);
+  });
+
+  afterAll(() => database.close());
+
+  beforeEach(async () => {
+    await database.pool.query("TRUNCATE tickets, audit_log CASCADE");
+  });
+
+  const createTicket = () =>
+    tickets.createAndReturn({
+      channelId: "1000",
+      creatorId: "100",
+      categoryKey: "support",
+      ticketNumber: 1,
+    });
+
+  it("lets only one of several parallel closes succeed", async () => {
+    const ticket = await createTicket();
+
+    const results = await Promise.all(
+      ["201", "202", "203", "204"].map((staffId) =>
+        tickets.close(ticket.ticketId, staffId, `closed by ${staffId}`)
+      )
+    );
+    const closed = results.filter((result) => result !== null);
+
+    expect(closed).toHaveLength(1);
+    expect(await tickets.find({ ticketId: ticket.ticketId })).toMatchObject({
+      status: "closed",
+      closedBy: closed[0]!.closedBy,
+      closeReason: closed[0]!.closeReason,
+    });
+  });
+
+  it("records the close once in the audit log", async () => {
+    const ticket = await createTicket();
+
+    await tickets.close(ticket.ticketId, "201", null);
+    await tickets.close(ticket.ticketId, "202", null);
+
+    const { rows } = await database.pool.query(
+      "SELECT actor_id FROM audit_log WHERE table_name = 'tickets'"
+    );
+    expect(rows).toEqual([{ actor_id: "201" }]);
+  });
+});
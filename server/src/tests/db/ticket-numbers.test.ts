@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { TicketQueries } from "@/db/queries/tickets.queries";
+import {
+  createTestDatabase,
+  type TestDatabase,
+} from "@/tests/helpers/test-database";
+
+// PGlite serializes all connections, so these tests check the numbering but
+// not lock contention. Parallel TicketManager.open() calls are covered in
+// tests/tickets/ticket-manager.test.ts
+describe("TicketQueries.allocateTicketNumber", () => {
+  let database: TestDatabase;
+  let tickets: TicketQueries;
+
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    tickets = new TicketQueries(database.pool);
+  });
+
+  afterAll(() => database.close());
+
+  beforeEach(async () => {
+    await database.pool.query("TRUNCATE tickets, ticket_counters CASCADE");
+  });
+
+  const allocateInParallel = (categoryKey: string, count: number) =>
+    Promise.all(
+      Array.from({ length: count }, () =>
+        tickets.allocateTicketNumber(categoryKey)
+      )
+    );
+
+  it("allocates unique numbers without gaps to parallel callers", async () => {
+    const numbers = await allocateInParallel("support", 50);
+
+    expect(numbers.sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 50 }, (_, index) => index + 1)
+    );
+  });
+
+  it("counts every category separately", async () => {
+    const [support, technical] = await Promise.all([
+      allocateInParallel("support", 20),
+      allocateInParallel("technical", 20),
+    ]);
+
+    const expected = Array.from({ length: 20 }, (_, index) => index + 1);
+    expect(support.sort((a, b) => a - b)).toEqual(expected);
+    expect(technical.sort((a, b) => a - b)).toEqual(expected);
+  });
+
+  it("continues after the highest existing ticket number", async () => {
+    await tickets.create({
+      channelId: "300000000000000001",
+      creatorId: "400000000000000001",
+      categoryKey: "support",
+      ticketNumber: 7,
+    });
+
+    const numbers = await allocateInParallel("support", 10);
+
+    expect(numbers.sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 10 }, (_, index) => index + 8)
+    );
+  });
+});
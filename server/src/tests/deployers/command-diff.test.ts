@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  APIApplicationCommand,
+  ApplicationCommandType,
+  ApplicationIntegrationType,
+  ContextMenuCommandBuilder,
+  InteractionContextType,
+  RESTPostAPIApplicationCommandsJSONBody,
+  SlashCommandBuilder,
+} from "discord.js";
+import { diffCommands } from "@/discord/deployers/command-diff";
+
+/**
+ * Slash command as defined in a command module
+ */
+function buildPing(): SlashCommandBuilder {
+  return new SlashCommandBuilder()
+    .setName("ping")
+    .setDescription("Replies with pong")
+    .addStringOption((option) =>
+      option
+        .setName("mode")
+        .setDescription("Reply mode")
+        .addChoices({ name: "Fast", value: "fast" })
+    ) as SlashCommandBuilder;
+}
+
+/**
+ * Command as Discord returns it, with the defaults it fills in
+ */
+function asRegistered(
+  command: RESTPostAPIApplicationCommandsJSONBody
+): APIApplicationCommand {
+  const raw = command as unknown as Record<string, unknown>;
+
+  return {
+    id: `id-${command.name}`,
+    application_id: "1",
+    guild_id: "2",
+    version: "3",
+    type: ApplicationCommandType.ChatInput,
+    description: "",
+    name_localizations: null,
+    description_localizations: null,
+    default_member_permissions: null,
+    dm_permission: true,
+    nsfw: false,
+    integration_types: [ApplicationIntegrationType.GuildInstall],
+    contexts: null,
+    ...command,
+    options: (raw.options as Record<string, unknown>[] | undefined)?.map(
+      (option) => ({
+        ...option,
+        choices: (option.choices as Record<string, unknown>[] | undefined)?.map(
+          (choice) => ({
+            ...choice,
+            name_localizations: choice.name_localizations ?? null,
+          })
+        ),
+      })
+    ),
+  } as APIApplicationCommand;
+}
+
+describe("diffCommands", () => {
+  const ping = buildPing().toJSON();
+  const viewCooldowns = new ContextMenuCommandBuilder()
+    .setName("View Cooldowns")
+    .setType(ApplicationCommandType.User)
+    .toJSON();
+
+  it("reports nothing when only Discord's defaults differ", () => {
+    expect(
+      diffCommands(
+        [ping, viewCooldowns],
+        [asRegistered(ping), asRegistered(viewCooldowns)]
+      )
+    ).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it("reports added and removed commands", () => {
+    const registered = asRegistered(
+      new SlashCommandBuilder().setName("old").setDescription("Old").toJSON()
+    );
+
+    const diff = diffCommands([ping], [registered]);
+
+    expect(diff.added).toEqual([ping]);
+    expect(diff.removed).toEqual([registered]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it("tells commands of different types with the same name apart", () => {
+    const userMenu = new ContextMenuCommandBuilder()
+      .setName("ping")
+      .setType(ApplicationCommandType.User)
+      .toJSON();
+
+    const diff = diffCommands([ping, userMenu], [asRegistered(ping)]);
+
+    expect(diff.added).toEqual([userMenu]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it.each<[string, (builder: SlashCommandBuilder) => unknown]>([
+    ["description", (builder) => builder.setDescription("Replies quickly")],
+    ["permissions", (builder) => builder.setDefaultMemberPermissions(0n)],
+    [
+      "contexts",
+      (builder) => builder.setContexts(InteractionContextType.Guild),
+    ],
+    [
+      "integration types",
+      (builder) =>
+        builder.setIntegrationTypes(ApplicationIntegrationType.UserInstall),
+    ],
+    [
+      "name localizations",
+      (builder) => builder.setNameLocalizations({ de: "pingen" }),
+    ],
+  ])("reports commands whose %s changed", (_, change) => {
+    const builder = buildPing();
+    change(builder);
+    const local = builder.toJSON();
+
+    expect(diffCommands([local], [asRegistered(ping)]).changed).toEqual([
+      local,
+    ]);
+  });
+
+  it("reports commands whose choice localizations changed", () => {
+    const local = new SlashCommandBuilder()
+      .setName("ping")
+      .setDescription("Replies with pong")
+      .addStringOption((option) =>
+        option
+          .setName("mode")
+          .setDescription("Reply mode")
+          .addChoices({
+            name: "Fast",
+            name_localizations: { de: "Schnell" },
+            value: "fast",
+          })
+      )
+      .toJSON();
+
+    expect(diffCommands([local], [asRegistered(ping)]).changed).toEqual([
+      local,
+    ]);
+  });
+
+  it("ignores the order of contexts", () => {
+    const local = buildPing()
+      .setContexts(InteractionContextType.Guild, InteractionContextType.BotDM)
+      .toJSON();
+    const registered = asRegistered({
+      ...local,
+      contexts: [InteractionContextType.BotDM, InteractionContextType.Guild],
+    });
+
+    expect(diffCommands([local], [registered]).changed).toEqual([]);
+  });
+});
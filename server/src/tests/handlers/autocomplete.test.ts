@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AutocompleteInteraction,
+  Client,
+  Collection,
+  Interaction,
+} from "discord.js";
+import config from "@/config";
+import { registerInteractionHandler } from "@/discord/bots/main/handlers/interaction-handler";
+import type { CommandModule } from "@/discord/bots/main/loaders/command-loader";
+
+const { throttleMs } = config.discord.autocomplete;
+
+describe("autocomplete handling", () => {
+  let dispatch: (interaction: Interaction) => Promise<void>;
+  let command: CommandModule;
+  let userId = 0;
+
+  /**
+   * Autocomplete interaction with the parts the handler uses
+   */
+  function createInteraction(value: string) {
+    return {
+      commandName: "search",
+      value,
+      user: { id: String(userId) },
+      responded: false,
+      isChatInputCommand: () => false,
+      isContextMenuCommand: () => false,
+      isAutocomplete: () => true,
+      respond: vi.fn().mockResolvedValue(undefined),
+    } as unknown as AutocompleteInteraction & {
+      value: string;
+      respond: ReturnType<typeof vi.fn>;
+    };
+  }
+
+  const handledValues = () =>
+    vi
+      .mocked(command.autocomplete!)
+      .mock.calls.map(
+        ([interaction]) => (interaction as unknown as { value: string }).value
+      );
+
+  beforeEach(() => {
+    // A new user per test, so throttling does not carry over
+    userId++;
+    command = {
+      data: {} as CommandModule["data"],
+      execute: vi.fn(),
+      autocomplete: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const client = {
+      on: (_: string, listener: typeof dispatch) => (dispatch = listener),
+    } as unknown as Client;
+    registerInteractionHandler(
+      client,
+      new Collection([["search", command]]),
+      new Collection(),
+      new Collection()
+    );
+  });
+
+  it("handles the first and the last request of a burst", async () => {
+    const interactions = ["t", "ti", "tic", "tick"].map(createInteraction);
+
+    await Promise.all(interactions.map((interaction) => dispatch(interaction)));
+
+    expect(handledValues()).toEqual(["t", "tick"]);
+    expect(interactions[1].respond).toHaveBeenCalledWith([]);
+    expect(interactions[2].respond).toHaveBeenCalledWith([]);
+  });
+
+  it("handles requests that are throttleMs apart", async () => {
+    await dispatch(createInteraction("t"));
+    await new Promise((resolve) => setTimeout(resolve, throttleMs + 10));
+    await dispatch(createInteraction("ti"));
+
+    expect(handledValues()).toEqual(["t", "ti"]);
+  });
+
+  it("answers with no suggestions when the handler throws synchronously", async () => {
+    command.autocomplete = vi.fn(() => {
+      throw new Error("failed");
+    });
+    const interaction = createInteraction("t");
+
+    await dispatch(interaction);
+
+    expect(interaction.respond).toHaveBeenCalledWith([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import pg from "pg";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import config from "@/config";
+import { Migrator } from "@/db/migrations/migrator";
+
+/**
+ * Migrated database served by an in-process PGlite instance
+ */
+export interface TestDatabase {
+  /** Pool connected to the database, pass it to the query classes under test */
+  pool: pg.Pool;
+  /** Closes the pool and stops the database */
+  close: () => Promise<void>;
+}
+
+/**
+ * Creates an empty database with all migrations applied
+ *
+ * PGlite speaks the PostgreSQL wire protocol on a unix socket, so the code
+ * under test uses a regular pg.Pool with several connections. PGlite runs
+ * one statement at a time and holds back other connections while one of
+ * them is in a transaction.
+ *
+ * @example
+ * let database: TestDatabase;
+ * beforeAll(async () => (database = await createTestDatabase()));
+ * afterAll(() => database.close());
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const socketDir = fs.mkdtempSync(path.join(os.tmpdir(), "pglite-"));
+  const pglite = await PGlite.create();
+  const server = new PGLiteSocketServer({
+    db: pglite,
+    path: path.join(socketDir, ".s.PGSQL.5432"),
+    maxConnections: 20,
+  });
+  await server.start();
+
+  const pool = new pg.Pool({
+    host: socketDir,
+    port: 5432,
+    user: "postgres",
+    database: "postgres",
+    max: 10,
+  });
+
+  await new Migrator(
+    pool,
+    config.database.migrations.dir,
+    config.database.migrations.table
+  ).up();
+
+  return {
+    pool,
+    close: async () => {
+      await pool.end();
+      await server.stop();
+      await pglite.close();
+      fs.rmSync(socketDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { afterAll, vi } from "vitest";
+
+/**
+ * Runs before every test file
+ *
+ * Fills in the environment variables required by config, so tests run
+ * without a .env.test file. Nothing connects to the configured database,
+ * tests that need one use createTestDatabase().
+ */
+const testEnv: Record<string, string> = {
+  NODE_ENV: "test",
+  DB_USER: "postgres",
+  DB_HOST: "127.0.0.1",
+  DB_DATABASE: "postgres",
+  DB_PASSWORD: "postgres",
+  DISCORD_GUILD_ID: "100000000000000000",
+  DISCORD_BOT_TOKEN: "test-token",
+  DISCORD_BOT_ID: "200000000000000000",
+};
+
+for (const [key, value] of Object.entries(testEnv)) {
+  process.env[key] ??= value;
+}
+
+const { default: logger } = await import("@/logger");
+await import("@/logger.global");
+
+// Keep the test output readable, tests spy on the logger where it matters
+for (const level of ["debug", "info", "warn", "error"] as const) {
+  vi.spyOn(logger, level).mockImplementation(() => {});
+}
+
+afterAll(() => logger.close());
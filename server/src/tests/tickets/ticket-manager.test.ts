@@ -0,0 +1,166 @@
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { Guild, TextChannel, User } from "discord.js";
+import type { TestDatabase } from "@/tests/helpers/test-database";
+import { ticketQueries } from "@/db/queries/tickets.queries";
+import { ticketManager } from "@/discord/utils/tickets/ticket-manager";
+import { TicketError } from "@/discord/utils/tickets/errors";
+
+const database = vi.hoisted(() => ({ current: null as TestDatabase | null }));
+
+// The ticket manager uses the shared pool, point it at the test database
+vi.mock("@/db", async () => {
+  const { createTestDatabase } = await import("@/tests/helpers/test-database");
+  database.current = await createTestDatabase();
+  return { default: database.current.pool };
+});
+
+/**
+ * Guild whose channels.create() returns channel stubs
+ */
+function createGuild() {
+  let nextChannelId = 1000;
+  const channels: (TextChannel & {
+    send: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+  })[] = [];
+
+  const create = vi.fn(async () => {
+    const channel = {
+      id: String(nextChannelId++),
+      send: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+    } as unknown as (typeof channels)[number];
+    channels.push(channel);
+    return channel;
+  });
+
+  const guild = {
+    roles: { everyone: { id: "1" } },
+    members: { me: null },
+    channels: { create },
+  } as unknown as Guild;
+
+  return { guild, channels, create };
+}
+
+const user = { id: "100", tag: "user#0001" } as User;
+
+afterAll(() => database.current?.close());
+
+describe("TicketManager.open", () => {
+  beforeEach(async () => {
+    await database.current!.pool.query(
+      "TRUNCATE tickets, ticket_counters, audit_log CASCADE"
+    );
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it("binds the created channel to the ticket", async () => {
+    const { guild, channels } = createGuild();
+
+    const { ticket, channel } = await ticketManager.open(
+      guild,
+      user,
+      "support"
+    );
+
+    expect(ticket).toMatchObject({
+      channelId: channel.id,
+      status: "open",
+      ticketNumber: 1,
+    });
+    expect(channels[0].send).toHaveBeenCalledOnce();
+  });
+
+  it("closes the ticket when the channel cannot be created", async () => {
+    const { guild, create } = createGuild();
+    create.mockRejectedValueOnce(new Error("Missing Permissions"));
+
+    await expect(ticketManager.open(guild, user, "support")).rejects.toThrow(
+      "Missing Permissions"
+    );
+
+    expect(await ticketQueries.findAll({ creatorId: user.id })).toMatchObject([
+      { status: "closed", channelId: null, ticketNumber: 1 },
+    ]);
+
+    // The failed ticket does not count towards the open ticket limit
+    const { ticket } = await ticketManager.open(guild, user, "support");
+    expect(ticket.ticketNumber).toBe(2);
+  });
+
+  it("deletes the channel and closes the ticket when binding fails", async () => {
+    const { guild, channels } = createGuild();
+    vi.spyOn(ticketQueries, "updateAndReturn").mockRejectedValueOnce(
+      new Error("Connection lost")
+    );
+
+    await expect(ticketManager.open(guild, user, "support")).rejects.toThrow(
+      "Connection lost"
+    );
+
+    expect(channels[0].delete).toHaveBeenCalledOnce();
+    expect(await ticketQueries.findOpenByCreator(user.id)).toEqual([]);
+  });
+});
+
+// PGlite runs one statement at a time and holds back other connections while
+// one is in a transaction, so these tests check the results of parallel
+// opens but do not exercise real lock contention between connections
+describe("TicketManager.open in parallel", () => {
+  beforeEach(async () => {
+    await database.current!.pool.query(
+      "TRUNCATE tickets, ticket_counters, audit_log CASCADE"
+    );
+  });
+
+  it("opens one ticket for repeated clicks of a user", async () => {
+    const { guild, create } = createGuild();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () =>
+        ticketManager.open(guild, user, "support")
+      )
+    );
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    for (const result of results.filter((r) => r.status === "rejected")) {
+      expect(result.reason).toBeInstanceOf(TicketError);
+    }
+    expect(create).toHaveBeenCalledOnce();
+    expect(await ticketQueries.findOpenByCreator(user.id)).toHaveLength(1);
+  });
+
+  it("gives every user one ticket with a unique number", async () => {
+    const { guild } = createGuild();
+    const users = Array.from(
+      { length: 10 },
+      (_, index) => ({ id: String(200 + index), tag: `user#${index}` } as User)
+    );
+
+    await Promise.allSettled(
+      users.flatMap((creator) =>
+        Array.from({ length: 3 }, () =>
+          ticketManager.open(guild, creator, "support")
+        )
+      )
+    );
+
+    const tickets = await ticketQueries.findAll({ status: "open" });
+    expect(tickets.map((t) => t.creatorId).sort()).toEqual(
+      users.map((u) => u.id).sort()
+    );
+    expect(tickets.map((t) => t.ticketNumber).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 10 }, (_, index) => index + 1)
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ButtonInteraction,
+  Client,
+  DiscordAPIError,
+  MessageFlags,
+  RESTJSONErrorCodes,
+} from "discord.js";
+import { ticketPanelQueries } from "@/db/queries/ticket-panels.queries";
+import type { TicketPanel } from "@/db/types/tickets.types";
+import { ticketPanelManager } from "@/discord/utils/tickets/ticket-panel-manager";
+
+const panel = {
+  id: 1,
+  channelId: "200",
+  messageId: "300",
+  panelConfig: { categories: ["support"] },
+} as unknown as TicketPanel;
+
+/**
+ * Client whose channels.fetch() rejects with the given error
+ */
+function createClient(error: Error): Client {
+  return {
+    channels: { fetch: vi.fn().mockRejectedValue(error) },
+  } as unknown as Client;
+}
+
+function apiError(code: number, status: number) {
+  return new DiscordAPIError(
+    { code, message: "" },
+    code,
+    status,
+    "GET",
+    "/",
+    {}
+  );
+}
+
+describe("TicketPanelManager.restore", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it.each([
+    ["unknown channel", RESTJSONErrorCodes.UnknownChannel],
+    ["unknown message", RESTJSONErrorCodes.UnknownMessage],
+  ])("removes the panel on %s", async (_, code) => {
+    vi.spyOn(ticketPanelQueries, "getAll").mockResolvedValue([panel]);
+    const remove = vi
+      .spyOn(ticketPanelQueries, "delete")
+      .mockResolvedValue(undefined as never);
+
+    await ticketPanelManager.restore(createClient(apiError(code, 404)));
+
+    expect(remove).toHaveBeenCalledWith({ id: panel.id });
+  });
+
+  it.each([
+    [
+      "missing permissions",
+      apiError(RESTJSONErrorCodes.MissingPermissions, 403),
+    ],
+    ["a server error", apiError(0, 500)],
+    ["a network error", new Error("ECONNRESET")],
+  ])("keeps the panel on %s", async (_, error) => {
+    vi.spyOn(ticketPanelQueries, "getAll").mockResolvedValue([panel]);
+    const remove = vi.spyOn(ticketPanelQueries, "delete");
+    const logError = vi.spyOn(logger, "error").mockImplementation(() => {});
+
+    await ticketPanelManager.restore(createClient(error));
+
+    expect(remove).not.toHaveBeenCalled();
+    expect(logError).toHaveBeenCalledWith(
+      `Failed to restore ticket panel ${panel.messageId}:`,
+      error
+    );
+  });
+});
+
+describe("TicketPanelManager.handleButton", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("answers buttons with an unknown action", async () => {
+    const logWarn = vi.spyOn(logger, "warn").mockImplementation(() => {});
+    const reply = vi.fn().mockResolvedValue(undefined);
+    const deferReply = vi.fn();
+    const interaction = {
+      customId: "ticket-panel:close:support",
+      inCachedGuild: () => true,
+      reply,
+      deferReply,
+    } as unknown as ButtonInteraction;
+
+    await ticketPanelManager.handleButton(interaction, {
+      action: "close",
+      categoryKey: "support",
+    });
+
+    expect(deferReply).not.toHaveBeenCalled();
+    expect(reply).toHaveBeenCalledWith(
+      expect.objectContaining({ flags: MessageFlags.Ephemeral })
+    );
+    expect(reply.mock.calls[0][0].embeds[0].data.description).toBe(
+      "This button is no longer supported."
+    );
+    expect(logWarn).toHaveBeenCalledWith(
+      "Unknown ticket panel button: ticket-panel:close:support"
+    );
+  });
+});